@@ -5,11 +5,39 @@ import { ChapterList } from './components/ChapterList';
 import { PDFView } from './components/PDFView';
 import { SettingsModal } from './components/SettingsModal';
 import { GuideModal } from './components/GuideModal';
-import { Chapter, VocabDB, VocabStats, AppSettings, VocabResult, VocabSet, Language } from './types';
-import { DEFAULT_SETTINGS, TRANSLATIONS } from './constants';
-import { parseNovel, analyzeTextForVocab } from './utils/textProcessing';
-import { AIService } from './services/aiService';
-import { Settings as SettingsIcon, Layout, BookOpen, CheckCircle, Download, AlertTriangle, Save, UploadCloud } from 'lucide-react';
+import { ImportPreviewModal } from './components/ImportPreviewModal';
+import { PasteTextModal } from './components/PasteTextModal';
+import { PromptTemplatesModal } from './components/PromptTemplatesModal';
+import { GlossaryModal } from './components/GlossaryModal';
+import { GradedReaderModal } from './components/GradedReaderModal';
+import { UsageModal } from './components/UsageModal';
+import { JobQueueModal } from './components/JobQueueModal';
+import { AlternativesModal } from './components/AlternativesModal';
+import { Chapter, Segment, ProcessingState, VocabDB, VocabStats, AppSettings, VocabResult, VocabSet, Language, ProjectConfig, PendingImport, PromptKind, PromptTemplate, GlossaryEntry, GradedReaderOptions, ModelPrice, UsageRecord, JobQueue, QueueJob, ModelRef } from './types';
+import { DEFAULT_SETTINGS, DEFAULT_PROJECT_CONFIG, TRANSLATIONS } from './constants';
+import { chapterNumberFromFileName, scoreTextLevel } from './utils/textProcessing';
+import { notesPayloadItem, resolveTemplate } from './utils/promptTemplates';
+import { replaceTranslation, syncEnglishSource } from './utils/chapterEditing';
+import { chunkByTokens, precedingPairs, runWithConcurrency } from './utils/batching';
+import { parseEpub, isEpubFile } from './utils/epub';
+import { addUsage, costOf, estimateNotesUsage, estimateTranslationUsage, formatCost, formatTokens, splitByChapter } from './utils/usage';
+import { detectEncoding, decodeText } from './utils/encoding';
+import { completeQueueChapter, createQueueJob, emptyQueue, failQueueJob, nextQueueTask, queueProgress, rebaseQueue, resetInterruptedStatuses, retryQueueJob } from './utils/jobQueue';
+import { AIService, JobOptions, PromptOptions, TranslationContext, UsageSample } from './services/aiService';
+import { getProviderInfo, modelRefLabel, settingsForModel } from './services/providers/registry';
+import { isCancelledError, isFatalError } from './services/providers/errors';
+import { createResponseCache } from './services/responseCache';
+import { RetryStatus } from './services/retry';
+import { Settings as SettingsIcon, Layout, BookOpen, CheckCircle, Download, AlertTriangle, Save, UploadCloud, BookMarked, GraduationCap, StopCircle, Coins, ListOrdered } from 'lucide-react';
+
+// Segments per note-generation request
+const NOTES_BATCH_SIZE = 20;
+// Chapter translation: estimated input tokens per request, parallel requests
+const TRANSLATION_CHUNK_TOKENS = 1500;
+const TRANSLATION_CONCURRENCY = 3;
+// Glossary seeding reads this many chapters, in token-budgeted requests
+const GLOSSARY_SEED_CHAPTERS = 3;
+const GLOSSARY_CHUNK_TOKENS = 3000;
 
 const App: React.FC = () => {
   // --- State ---
@@ -28,11 +56,24 @@ const App: React.FC = () => {
   
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [isGuideOpen, setIsGuideOpen] = useState(false);
+  const [isPasteOpen, setIsPasteOpen] = useState(false);
+  // Prompt template editor; segmentIds drive the dry-run preview (empty = sample from current chapter)
+  const [promptEditor, setPromptEditor] = useState<{ segmentIds: string[] } | null>(null);
+  const [isGlossaryOpen, setIsGlossaryOpen] = useState(false);
+  const [isGradedOpen, setIsGradedOpen] = useState(false);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+  const [isQueueOpen, setIsQueueOpen] = useState(false);
+  const [alternativesFor, setAlternativesFor] = useState<string | null>(null); // Segment id
   
   // API Timer & Status State
-  const [processingState, setProcessingState] = useState<{ type: 'chapter' | 'batch' | 'segment', id: string | number } | null>(null);
+  const [processingState, setProcessingState] = useState<ProcessingState | null>(null);
+  // Set while a request waits to be retried (rate limit, server error, ...)
+  const [retryStatus, setRetryStatus] = useState<RetryStatus | null>(null);
+  const [retryNow, setRetryNow] = useState(Date.now()); // Ticks while waiting, for the countdown
   const [timerSeconds, setTimerSeconds] = useState(0);
   const startTimeRef = useRef<number>(0);
+  // Aborts the running AI job (toolbar Stop button)
+  const jobRef = useRef<AbortController | null>(null);
   const [completionModal, setCompletionModal] = useState<{ show: boolean, msg: string, seconds: number } | null>(null);
   
   // Error Modal State
@@ -69,6 +110,12 @@ const App: React.FC = () => {
   const [chapters, setChapters] = useState<Chapter[]>([]);
   const [currentFileName, setCurrentFileName] = useState<string>('');
   const [currentChapterIndex, setCurrentChapterIndex] = useState(-1);
+  const [projectConfig, setProjectConfig] = useState<ProjectConfig>(DEFAULT_PROJECT_CONFIG);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const projectConfigRef = useRef(projectConfig);
+  projectConfigRef.current = projectConfig;
+  const fileNameRef = useRef(currentFileName);
+  fileNameRef.current = currentFileName;
 
   // PDF State (Persisted) with Error Handling
   const [pdfItems, setPdfItems] = useState<{type: 'header' | 'content' | 'break', data: any}[]>(() => {
@@ -81,8 +128,46 @@ const App: React.FC = () => {
     }
   });
 
+  // Token usage per project (keyed by file name), kept apart from novel_progress so saves
+  // made mid-job with an older config can't drop it
+  const [usageLedger, setUsageLedger] = useState<Record<string, UsageRecord[]>>(() => {
+    try {
+      const saved = localStorage.getItem('usage_ledger');
+      return saved ? JSON.parse(saved) : {};
+    } catch (e) {
+      console.error("Failed to load usage ledger", e);
+      return {};
+    }
+  });
+
+  // Whole-book job queue (persisted, resumed after a reload). The ref is what the running queue
+  // reads, so jobs added or a pause made mid-run are seen right away
+  const [jobQueue, setJobQueue] = useState<JobQueue>(() => {
+    try {
+      const saved = localStorage.getItem('job_queue');
+      return saved ? JSON.parse(saved) : emptyQueue('');
+    } catch (e) {
+      console.error("Failed to load job queue", e);
+      return emptyQueue('');
+    }
+  });
+  const queueRef = useRef<JobQueue>(jobQueue);
+  const queueResumedRef = useRef(false);
+
   // Services
-  const aiService = useMemo(() => new AIService(settings), [settings]);
+  const promptOptions = useMemo<PromptOptions>(() => ({
+    templates: {
+      translate: resolveTemplate(settings.promptTemplates, projectConfig.activePrompts.translate, 'translate').body,
+      vocabNotes: resolveTemplate(settings.promptTemplates, projectConfig.activePrompts.vocabNotes, 'vocabNotes').body
+    },
+    targetLevel: String(projectConfig.graded.enabled ? projectConfig.graded.targetLevel : 6),
+    glossary: projectConfig.glossary,
+    gradedLevel: projectConfig.graded.enabled ? projectConfig.graded.targetLevel : undefined
+  }), [settings.promptTemplates, projectConfig.activePrompts, projectConfig.glossary, projectConfig.graded]);
+  const responseCache = useMemo(() => settings.cacheEnabled && currentFileName
+    ? createResponseCache({ project: currentFileName, maxBytes: settings.cacheMaxMB * 1024 * 1024, bypass: settings.cacheBypass })
+    : undefined, [settings.cacheEnabled, settings.cacheMaxMB, settings.cacheBypass, currentFileName]);
+  const aiService = useMemo(() => new AIService(settings, promptOptions, setRetryStatus, responseCache), [settings, promptOptions, responseCache]);
 
   // --- Effects ---
   useEffect(() => {
@@ -125,8 +210,9 @@ const App: React.FC = () => {
       try {
         const data = JSON.parse(savedNovel);
         if (data.chapters) {
-          setChapters(data.chapters);
+          setChapters(resetInterruptedStatuses(data.chapters));
           setCurrentFileName(data.fileName || '');
+          setProjectConfig({ ...DEFAULT_PROJECT_CONFIG, ...data.config });
         }
       } catch (e) { 
         console.error("Failed to load novel progress", e); 
@@ -139,6 +225,43 @@ const App: React.FC = () => {
     localStorage.setItem('pdf_content', JSON.stringify(pdfItems));
   }, [pdfItems]);
 
+  useEffect(() => {
+    localStorage.setItem('usage_ledger', JSON.stringify(usageLedger));
+  }, [usageLedger]);
+
+  useEffect(() => {
+    localStorage.setItem('job_queue', JSON.stringify(jobQueue));
+  }, [jobQueue]);
+
+  // A queue that was running when the page closed picks up where it stopped, once the project is loaded
+  useEffect(() => {
+    if (queueResumedRef.current || chapters.length === 0 || !currentFileName) return;
+    queueResumedRef.current = true;
+    const queue = queueRef.current;
+    if (queue.fileName === currentFileName && !queue.paused && queue.jobs.some(job => job.status === 'queued')) {
+      runQueue();
+    }
+  }, [chapters, currentFileName]);
+
+  // Jobs queued or retried while another job ran start once it ends (run from here, after the
+  // render, so the queue sees that job's results)
+  useEffect(() => {
+    // Before the project has loaded, the resume above is in charge
+    if (processingState || isJobRunning() || !queueResumedRef.current) return;
+    const queue = queueRef.current;
+    if (queue.fileName === currentFileName && !queue.paused && queue.jobs.some(job => job.status === 'queued')) {
+      runQueue();
+    }
+  }, [processingState]);
+
+  // Retry countdown
+  useEffect(() => {
+    if (!retryStatus) return;
+    setRetryNow(Date.now());
+    const interval = setInterval(() => setRetryNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [retryStatus]);
+
   // Timer Effect
   useEffect(() => {
     let interval: any;
@@ -214,37 +337,119 @@ const App: React.FC = () => {
     setVocabDB({ 1: new Set(), 2: new Set(), 3: new Set(), 4: new Set(), 5: new Set(), 6: new Set() });
   };
 
-  const handleNovelImport = async (file: File) => {
+  // Replacing the project mid-job would be overwritten by the job's next save
+  const blockedByJob = () => {
+    if (!isJobRunning()) return false;
+    alert(t('stopJobFirst'));
+    return true;
+  };
+
+  const handleNovelImport = async (files: File[]) => {
+    if (blockedByJob()) return;
+    if (files.length > 1) return handleMultiFileImport(files);
+    const file = files[0];
     try {
       const arrayBuffer = await file.arrayBuffer();
-      let text = '';
-      
-      // 1. Try UTF-8 first
-      try {
-        const decoder = new TextDecoder('utf-8', { fatal: true });
-        text = decoder.decode(arrayBuffer);
-      } catch (e) {
-        // 2. Fallback to GB18030 (Superset of GBK/GB2312)
-        console.warn("UTF-8 decode failed, trying GB18030");
-        const decoder = new TextDecoder('gb18030');
-        text = decoder.decode(arrayBuffer);
+
+      // EPUB: chapters come from the spine and nav/NCX, no text decoding needed. They are staged
+      // as one part per chapter (blank lines keep the blocks apart) for cleaning and review.
+      if (isEpubFile(file.name)) {
+        const epubChapters = await parseEpub(arrayBuffer);
+        if (epubChapters.length === 0) throw new Error("No readable chapters found in EPUB");
+        const parts = epubChapters.map(chap => ({
+          name: chap.title,
+          text: chap.segments.filter(s => !s.isChapterHeader).map(s => s.text).join('\n\n')
+        }));
+        setPendingImport({
+          fileName: file.name,
+          text: parts.map(p => p.text).join('\n'),
+          parts,
+          fixedChapters: true
+        });
+        return;
       }
 
-      const parsedChapters = parseNovel(text);
-      setChapters(parsedChapters);
-      setCurrentFileName(file.name);
-      saveNovelState(file.name, parsedChapters);
+      const detection = detectEncoding(arrayBuffer);
+      const text = decodeText(arrayBuffer, detection.encoding);
+
+      // Stage the decoded text so chapter rules can be reviewed before committing
+      setPendingImport({
+        fileName: file.name,
+        text,
+        buffer: arrayBuffer,
+        encoding: detection.encoding,
+        encodingMethod: detection.method
+      });
     } catch (e) {
       console.error(e);
-      alert("Failed to parse novel. Please ensure it is a valid text file.");
+      alert("Failed to parse novel. Please ensure it is a valid .txt or .epub file.\n\n" + (e as Error).message);
     }
   };
 
+  // One .txt per chapter: order by the number in each file name and stage them as one project
+  const handleMultiFileImport = async (files: File[]) => {
+    if (files.some(f => isEpubFile(f.name))) {
+      alert(t('multiFileTxtOnly'));
+      return;
+    }
+    try {
+      const sorted = [...files].sort((a, b) => {
+        const na = chapterNumberFromFileName(a.name);
+        const nb = chapterNumberFromFileName(b.name);
+        if (na !== null && nb !== null && na !== nb) return na - nb;
+        if ((na === null) !== (nb === null)) return na === null ? 1 : -1;
+        return a.name.localeCompare(b.name, undefined, { numeric: true });
+      });
+
+      // Each file gets its own encoding detection
+      const parts = await Promise.all(sorted.map(async file => {
+        const buffer = await file.arrayBuffer();
+        return { name: file.name.replace(/\.txt$/i, ''), text: decodeText(buffer, detectEncoding(buffer).encoding) };
+      }));
+
+      setPendingImport({
+        fileName: `${parts[0].name} (+${parts.length - 1})`,
+        text: parts.map(p => p.text).join('\n'),
+        parts
+      });
+    } catch (e) {
+      console.error(e);
+      alert("Failed to read files.\n\n" + (e as Error).message);
+    }
+  };
+
+  const handlePasteSubmit = (name: string, text: string) => {
+    setIsPasteOpen(false);
+    setPendingImport({ fileName: name, text });
+  };
+
+  const handleConfirmImport = (parsedChapters: Chapter[], importConfig: ProjectConfig) => {
+    if (!pendingImport || blockedByJob()) return;
+    // Parsing options carry over from the last book; its glossary does not
+    const config = { ...importConfig, glossary: [] };
+    // English originals skip Phase 1: the source text is the English line
+    const imported = config.sourceLanguage === 'en' ? syncEnglishSource(parsedChapters) : parsedChapters;
+    setChapters(imported);
+    setCurrentFileName(pendingImport.fileName);
+    setProjectConfig(config);
+    saveNovelState(imported, config, pendingImport.fileName);
+    setPendingImport(null);
+  };
+
+  // Structural edits from the staging area (merge/split/rename/edit segments)
+  const handleEditChapters = (edited: Chapter[]) => {
+    const newChapters = projectConfig.sourceLanguage === 'en' ? syncEnglishSource(edited) : edited;
+    if (queueRef.current.fileName === currentFileName) updateQueue(queue => rebaseQueue(queue, chapters, newChapters));
+    setChapters(newChapters);
+    saveNovelState(newChapters);
+  };
+
   const clearNovel = () => {
-    if (!confirm(t('clearNovel') + "?")) return;
+    if (blockedByJob() || !confirm(t('clearNovel') + "?")) return;
     setChapters([]);
     setCurrentFileName('');
     setPdfItems([]);
+    updateQueue(() => emptyQueue(''));
     localStorage.removeItem('novel_progress');
     localStorage.removeItem('pdf_content');
   };
@@ -256,12 +461,69 @@ const App: React.FC = () => {
     }
   };
 
-  const saveNovelState = (fileName: string, chaps: Chapter[]) => {
-    localStorage.setItem('novel_progress', JSON.stringify({ fileName, chapters: chaps }));
+  // Defaults come from refs: a queue run keeps the config and file name it started with, and
+  // writing those back would undo glossary or graded-reader edits made during the run
+  const saveNovelState = (chaps: Chapter[], config: ProjectConfig = projectConfigRef.current, fileName: string = fileNameRef.current) => {
+    localStorage.setItem('novel_progress', JSON.stringify({ fileName, chapters: chaps, config }));
+  };
+
+  // Templates are a library in settings; which one each job uses is per project
+  const handleSavePromptTemplates = (templates: PromptTemplate[], activePrompts: Record<PromptKind, string>) => {
+    setSettings({ ...settings, promptTemplates: templates });
+    const config = { ...projectConfig, activePrompts };
+    setProjectConfig(config);
+    if (currentFileName) saveNovelState(chapters, config);
+  };
+
+  // Flags always reflect the current options: re-score every translated segment (no rewrites)
+  const handleSaveGraded = (graded: GradedReaderOptions) => {
+    const config = { ...projectConfig, graded };
+    const newChapters = chapters.map(chap => ({
+      ...chap,
+      segments: chap.segments.map(seg => {
+        if (seg.isChapterHeader || !seg.enText || !graded.enabled || config.sourceLanguage === 'en') return { ...seg, levelFlag: undefined };
+        const score = scoreTextLevel(seg.enText, graded.targetLevel, vocabDB, config.glossary);
+        return { ...seg, levelFlag: score.ratio > graded.maxOutOfLevelRatio ? score : undefined };
+      })
+    }));
+    setProjectConfig(config);
+    setChapters(newChapters);
+    saveNovelState(newChapters, config);
+  };
+
+  const handleSaveGlossary = (glossary: GlossaryEntry[]) => {
+    const config = { ...projectConfig, glossary };
+    setProjectConfig(config);
+    saveNovelState(chapters, config);
+  };
+
+  // Seeds the glossary from the opening chapters; the modal merges the result for review
+  const handleExtractGlossary = async (): Promise<GlossaryEntry[]> => {
+    if (!settings.apiKey && getProviderInfo(settings.apiMode).requiresApiKey) throw new Error(t('apiMissing'));
+    const texts = chapters.slice(0, GLOSSARY_SEED_CHAPTERS)
+      .flatMap(c => c.segments)
+      .filter(s => !s.isChapterHeader && s.text.trim())
+      .map(s => s.text);
+
+    const extracted: GlossaryEntry[] = [];
+    for (const chunk of chunkByTokens(texts, GLOSSARY_CHUNK_TOKENS, text => text)) {
+      extracted.push(...await aiService.extractGlossary(chunk, projectConfig.sourceLanguage, { onUsage: usageFor([]) }));
+    }
+    return extracted;
   };
 
+  const promptPreviewSegments = useMemo(() => {
+    if (!promptEditor) return [];
+    if (promptEditor.segmentIds.length > 0) {
+      const ids = new Set(promptEditor.segmentIds);
+      return chapters.flatMap(c => c.segments).filter(s => ids.has(s.id));
+    }
+    return (chapters[currentChapterIndex]?.segments || []).filter(s => !s.isChapterHeader).slice(0, 3);
+  }, [promptEditor, chapters, currentChapterIndex]);
+
   const validateApiConfig = () => {
-    if (!settings.apiKey) {
+    // Local (Ollama) and mock providers need no key
+    if (!settings.apiKey && getProviderInfo(settings.apiMode).requiresApiKey) {
       setErrorModal({
         show: true,
         title: "API Not Configured",
@@ -272,56 +534,467 @@ const App: React.FC = () => {
     return true;
   };
 
-  const handleTranslateChapter = async (index: number) => {
-    if (!validateApiConfig()) return;
-    
-    const chapter = chapters[index];
-    const segmentsToTrans = chapter.segments.filter(s => !s.isChapterHeader).map(s => s.text);
-    
-    if (segmentsToTrans.length === 0) return;
+  // One job at a time. Checked through the ref: a queue run lasts hours and its closures
+  // (and those of handlers rendered before it started) see a stale processingState
+  const isJobRunning = () => jobRef.current !== null;
+
+  const startJob = (): AbortSignal => {
+    jobRef.current = new AbortController();
+    return jobRef.current.signal;
+  };
 
+  const handleCancelJob = () => jobRef.current?.abort();
+
+  // Usage listener for a call; itemChapters are the chapter titles of its items (empty for
+  // project-wide jobs), see splitByChapter
+  const usageFor = (itemChapters: string[]) => (sample: UsageSample) => {
+    setUsageLedger(prev => ({
+      ...prev,
+      [currentFileName]: splitByChapter(sample, itemChapters).reduce(addUsage, prev[currentFileName] || [])
+    }));
+  };
+
+  const handleSaveUsageSettings = (modelPrices: ModelPrice[], confirmCostEstimate: boolean) => {
+    setSettings({ ...settings, modelPrices, confirmCostEstimate });
+  };
+
+  const handleResetUsage = () => {
+    setUsageLedger(prev => ({ ...prev, [currentFileName]: [] }));
+  };
+
+  // Asks before a whole-chapter or volume job, with its estimated size and cost
+  const confirmEstimate = (usage: { promptTokens: number, completionTokens: number }): boolean => {
+    if (!settings.confirmCostEstimate) return true;
+    const cost = costOf(settings.model, usage.promptTokens, usage.completionTokens, settings.modelPrices);
+    return confirm(t('costEstimateConfirm', {
+      input: formatTokens(usage.promptTokens),
+      output: formatTokens(usage.completionTokens),
+      cost: cost === null ? t('costUnknown', { model: settings.model }) : formatCost(cost)
+    }));
+  };
+
+  const estimateChapterTranslation = (chapterIndices: number[], onlyFailed = false) => {
+    const prompts: string[] = [];
+    const sources: string[] = [];
+    chapterIndices.forEach(i => {
+      const targets = chapterTranslationTargets(chapters[i], onlyFailed);
+      chunkByTokens(targets, TRANSLATION_CHUNK_TOKENS, s => s.text).forEach(chunk => {
+        prompts.push(aiService.buildTranslatePrompt(chunk.map(s => s.text)));
+      });
+      sources.push(...targets.map(s => s.text));
+    });
+    return estimateTranslationUsage(prompts, sources);
+  };
+
+  const estimateNotes = (segmentIds: string[]) => {
+    const ids = new Set(segmentIds);
+    const items = chapters.flatMap(c => c.segments)
+      .filter(s => ids.has(s.id) && s.enText)
+      .map(s => notesPayloadItem(s, vocabDB, projectConfig.glossary));
+    const prompts: string[] = [];
+    for (let i = 0; i < items.length; i += NOTES_BATCH_SIZE) {
+      prompts.push(aiService.buildNotesPrompt(items.slice(i, i + NOTES_BATCH_SIZE)));
+    }
+    return estimateNotesUsage(prompts, items.length);
+  };
+
+  // Live "n of m" for the running job
+  const updateProgress = (done: number, total: number) => {
+    setProcessingState(prev => prev ? { ...prev, progress: { done, total } } : prev);
+  };
+
+  const chapterTranslationTargets = (chapter: Chapter, onlyFailed = false) =>
+    chapter.segments.filter(s => !s.isChapterHeader && !s.enText && (!onlyFailed || s.status === 'error'));
+
+  // Translates the untranslated segments of one chapter in place (segments added or split
+  // after an earlier run are picked up without redoing the rest). Work is sent in token-budgeted
+  // chunks; each chunk writes its results back as soon as it returns, or is marked failed.
+  // onProgress receives how many of the targeted segments have English so far.
+  // With context pairs enabled, chunks run one after another so each one sees the translation
+  // of the chunk before it. Returns the number of segments that still failed.
+  // Aborting `signal` keeps the finished chunks and puts the rest back to pending.
+  const translateChapter = async (
+    index: number,
+    newChapters: Chapter[],
+    onlyFailed = false,
+    onProgress?: (done: number) => void,
+    signal?: AbortSignal
+  ): Promise<number> => {
+    const chapter = newChapters[index];
+    const job: JobOptions = { signal, onUsage: usageFor([chapter.title]) };
+    const body = chapter.segments.filter(s => !s.isChapterHeader);
+    const targets = chapterTranslationTargets(chapter, onlyFailed);
+    const reportProgress = () => onProgress?.(targets.filter(s => !!s.enText).length);
+    const { graded } = projectConfig;
+    const scoreSegment = (s: Segment) => scoreTextLevel(s.enText || '', graded.targetLevel, vocabDB, projectConfig.glossary);
+
+    // Graded reader: segments over the out-of-level ratio get one simplifying rewrite (if enabled);
+    // whatever is still over is flagged for review
+    const checkLevels = async (chunk: Segment[]) => {
+      const isOver = (s: Segment) => scoreSegment(s).ratio > graded.maxOutOfLevelRatio;
+      const over = chunk.filter(isOver);
+      if (graded.autoRewrite && over.length > 0) {
+        try {
+          const rewrites = await aiService.simplifySegments(over.map(s => s.enText!), graded.targetLevel, job);
+          over.forEach((s, i) => { s.enText = rewrites[i]; });
+        } catch (e) {
+          console.warn("Simplifying rewrite failed", e);
+        }
+      }
+      chunk.forEach(s => { s.levelFlag = isOver(s) ? scoreSegment(s) : undefined; });
+    };
+
+    const contextFor = (chunk: Segment[]): TranslationContext => ({
+      pairs: precedingPairs(newChapters, index, chunk[0].id, settings.contextPairs),
+      synopsis: settings.useSynopsis ? newChapters[index - 1]?.synopsis : undefined
+    });
+
+    if (targets.length > 0) {
+      // Update status to translating
+      targets.forEach(s => { s.status = 'translating'; });
+      setChapters([...newChapters]);
+
+      const chunks = chunkByTokens(targets, TRANSLATION_CHUNK_TOKENS, s => s.text);
+      const concurrency = settings.contextPairs > 0 ? 1 : TRANSLATION_CONCURRENCY;
+      try {
+        await runWithConcurrency(chunks, concurrency, async chunk => {
+          // Transient errors are retried inside the request; anything that gets here failed for good
+          try {
+            // Streamed segments are shown as soon as they are complete
+            const translatedTexts = await aiService.translateSegments(chunk.map(s => s.text), (text, tIdx) => {
+              if (!chunk[tIdx] || typeof text !== 'string') return;
+              chunk[tIdx].enText = text;
+              chunk[tIdx].status = 'pending';
+              setChapters([...newChapters]);
+              reportProgress();
+            }, contextFor(chunk), { ...job, onModel: (model, indices) => indices.forEach(k => { chunk[k].translatedBy = model; }) });
+            chunk.forEach((s, tIdx) => {
+              s.enText = translatedTexts[tIdx];
+              s.status = 'pending'; // Ready for notes
+              s.levelFlag = undefined;
+            });
+            if (graded.enabled) await checkLevels(chunk);
+            setChapters([...newChapters]);
+            reportProgress();
+          } catch (e) {
+            // Stopped: segments that already streamed in are kept, the rest go back to pending below
+            if (isCancelledError(e)) throw e;
+            console.warn('Translation chunk failed', e);
+            // Partially streamed results are dropped; the chunk is left for "Retry failed"
+            chunk.forEach(s => { s.enText = undefined; s.translatedBy = undefined; s.status = 'error'; });
+            setChapters([...newChapters]);
+            reportProgress();
+            // Bad key, refusal, rejected request: the other chunks would fail the same way, stop the whole job
+            if (isFatalError(e)) throw e;
+          }
+        });
+      } finally {
+        // Chunks left unfinished by a fatal error or a Stop go back to pending
+        targets.forEach(s => { if (s.status === 'translating' && !s.enText) s.status = 'pending'; });
+        setChapters([...newChapters]);
+        saveNovelState(newChapters);
+      }
+    }
+
+    chapter.isTranslated = body.length > 0 && body.every(s => !!s.enText);
+
+    // The synopsis is a nicety: a failure here doesn't fail the chapter
+    if (settings.useSynopsis && chapter.isTranslated && targets.length > 0) {
+      try {
+        chapter.synopsis = await aiService.summarizeChapter(newChapters[index - 1]?.synopsis, body.map(s => s.enText!), job);
+      } catch (e) {
+        if (isCancelledError(e)) throw e;
+        console.warn("Chapter synopsis failed", e);
+      }
+    }
+    setChapters([...newChapters]);
+    saveNovelState(newChapters);
+    return body.filter(s => !s.enText).length;
+  };
+
+  const handleTranslateChapter = async (index: number, onlyFailed = false) => {
+    if (isJobRunning() || !validateApiConfig()) return;
+    if (!chapters[index].segments.some(s => !s.isChapterHeader)) return;
+
+    const total = chapterTranslationTargets(chapters[index], onlyFailed).length;
+    if (total > 0 && !confirmEstimate(estimateChapterTranslation([index], onlyFailed))) return;
     startTimeRef.current = Date.now();
-    setProcessingState({ type: 'chapter', id: index });
+    setProcessingState({ type: 'chapter', id: index, progress: { done: 0, total } });
+    const signal = startJob();
+
+    try {
+      const failed = await translateChapter(index, [...chapters], onlyFailed, done => updateProgress(done, total), signal);
+      
+      if (failed > 0) {
+        setErrorModal({ show: true, title: "Translation API Error", msg: t('translationFailedSegments', { count: failed }) });
+      } else {
+        // Stop Timer & Show Completion
+        const duration = Math.ceil((Date.now() - startTimeRef.current) / 1000);
+        setCompletionModal({ show: true, msg: t('taskCompleted'), seconds: duration });
+      }
+    } catch (e: any) {
+      if (!isCancelledError(e)) setErrorModal({ show: true, title: "Translation API Error", msg: e.message });
+    } finally {
+      setProcessingState(null);
+      startTimeRef.current = 0;
+      jobRef.current = null;
+    }
+  };
 
-    // Update status to translating
+  // English-source projects: fill in the optional Chinese line on demand
+  const handleReverseTranslateChapter = async (index: number) => {
+    if (isJobRunning() || !validateApiConfig()) return;
     const newChapters = [...chapters];
-    newChapters[index].segments.forEach(s => { if (!s.isChapterHeader) s.status = 'translating'; });
-    setChapters(newChapters);
+    const targets = newChapters[index].segments.filter(s => !s.isChapterHeader && s.enText && !s.zhText);
+    if (targets.length === 0) return;
+
+    startTimeRef.current = Date.now();
+    setProcessingState({ type: 'chapter', id: index });
+    const signal = startJob();
 
     try {
-      const translatedTexts = await aiService.translateSegments(segmentsToTrans);
-      
-      // Update with results
-      let tIdx = 0;
-      newChapters[index].segments.forEach(s => {
-        if (!s.isChapterHeader && tIdx < translatedTexts.length) {
-          s.enText = translatedTexts[tIdx];
-          s.status = 'pending'; // Ready for notes
-          tIdx++;
-        }
+      const zhTexts = await aiService.reverseTranslateSegments(targets.map(s => s.enText!), { signal, onUsage: usageFor([newChapters[index].title]) });
+      targets.forEach((s, tIdx) => {
+        if (tIdx < zhTexts.length) s.zhText = zhTexts[tIdx];
       });
-      newChapters[index].isTranslated = true;
-      setChapters(newChapters);
-      saveNovelState(currentFileName, newChapters);
-      
-      // Stop Timer & Show Completion
+      setChapters([...newChapters]);
+      saveNovelState(newChapters);
+
       const duration = Math.ceil((Date.now() - startTimeRef.current) / 1000);
       setCompletionModal({ show: true, msg: t('taskCompleted'), seconds: duration });
     } catch (e: any) {
-      setErrorModal({ show: true, title: "Translation API Error", msg: e.message });
-      newChapters[index].segments.forEach(s => { if (!s.isChapterHeader) s.status = 'error'; });
-      setChapters(newChapters);
+      if (!isCancelledError(e)) setErrorModal({ show: true, title: "Translation API Error", msg: e.message });
     } finally {
       setProcessingState(null);
       startTimeRef.current = 0;
+      jobRef.current = null;
+    }
+  };
+
+  // Translate every untranslated chapter of a volume, one chapter after another
+  const handleTranslateVolume = async (chapterIndices: number[]) => {
+    if (isJobRunning() || !validateApiConfig()) return;
+    const pending = chapterIndices.filter(i => !chapters[i].isTranslated);
+    if (pending.length === 0) return;
+
+    const total = pending.reduce((sum, i) => sum + chapterTranslationTargets(chapters[i]).length, 0);
+    if (total > 0 && !confirmEstimate(estimateChapterTranslation(pending))) return;
+    startTimeRef.current = Date.now();
+    setProcessingState({ type: 'volume', id: chapterIndices[0], progress: { done: 0, total } });
+    const signal = startJob();
+
+    const newChapters = [...chapters];
+    try {
+      let failed = 0;
+      let finished = 0;
+      for (const index of pending) {
+        const count = chapterTranslationTargets(newChapters[index]).length;
+        failed += await translateChapter(index, newChapters, false, done => updateProgress(finished + done, total), signal);
+        finished += count;
+      }
+      if (failed > 0) {
+        setErrorModal({ show: true, title: "Translation API Error", msg: t('translationFailedSegments', { count: failed }) });
+      } else {
+        const duration = Math.ceil((Date.now() - startTimeRef.current) / 1000);
+        setCompletionModal({ show: true, msg: t('taskCompleted'), seconds: duration });
+      }
+    } catch (e: any) {
+      if (!isCancelledError(e)) setErrorModal({ show: true, title: "Translation API Error", msg: e.message });
+    } finally {
+      setProcessingState(null);
+      startTimeRef.current = 0;
+      jobRef.current = null;
+    }
+  };
+
+  // Generate notes for every translated segment of a volume that has no notes yet
+  const handleGenerateVolumeNotes = (chapterIndices: number[]) => {
+    const ids = chapterIndices.flatMap(i =>
+      chapters[i].segments.filter(s => !s.isChapterHeader && s.enText && s.status !== 'done').map(s => s.id)
+    );
+    if (ids.length > 0) handleGenerateNotes(ids, chapterIndices[0]);
+  };
+
+  // --- Job Queue ---
+
+  const updateQueue = (change: (queue: JobQueue) => JobQueue) => {
+    queueRef.current = change(queueRef.current);
+    setJobQueue(queueRef.current);
+  };
+
+  // This project's queue (a queue left from another project is replaced on the next enqueue)
+  const projectQueue = (): JobQueue =>
+    queueRef.current.fileName === currentFileName ? queueRef.current : { ...emptyQueue(currentFileName), concurrency: queueRef.current.concurrency };
+
+  // Runs the queue until it is empty or paused. Chapters of a job run `concurrency` at a time
+  // (one at a time when translations chain chapter synopses); each job starts once the one
+  // before it has finished. Stop pauses the queue; a fatal error fails the job and pauses it.
+  const runQueue = async () => {
+    if (isJobRunning() || queueRef.current.fileName !== currentFileName) return;
+    if (!validateApiConfig()) {
+      updateQueue(queue => ({ ...queue, paused: true }));
+      return;
+    }
+
+    startTimeRef.current = Date.now();
+    setProcessingState({ type: 'queue', id: 'queue', progress: queueProgress(queueRef.current) });
+    const signal = startJob();
+    const newChapters = [...chapters];
+    const inFlight = new Set<string>();
+    const waiters: (() => void)[] = [];
+    const wakeLanes = () => waiters.splice(0).forEach(wake => wake());
+    const chapterLimit = (job: QueueJob) => job.kind === 'translate' && settings.useSynopsis ? 1 : queueRef.current.concurrency;
+    let stopError: { jobId: string, error: any } | null = null;
+
+    const runTask = async (job: QueueJob, index: number) => {
+      let failed = 0;
+      if (job.kind === 'translate') {
+        failed = await translateChapter(index, newChapters, false, undefined, signal);
+      } else {
+        const ids = newChapters[index].segments.filter(s => !s.isChapterHeader && s.enText && s.status !== 'done').map(s => s.id);
+        if (ids.length > 0) failed = (await generateNotes(ids, newChapters, signal)).length;
+      }
+      updateQueue(queue => completeQueueChapter(queue, job.id, index, failed));
+      const { done, total } = queueProgress(queueRef.current);
+      updateProgress(done, total);
+    };
+
+    const lane = async () => {
+      while (!stopError) {
+        const task = nextQueueTask(queueRef.current, inFlight, chapterLimit);
+        if (!task) {
+          if (inFlight.size === 0) return;
+          // Wait for a running chapter: it may finish the job and unlock the next one
+          await new Promise<void>(resolve => waiters.push(resolve));
+          continue;
+        }
+        inFlight.add(task.key);
+        try {
+          await runTask(task.job, task.chapter);
+        } catch (e) {
+          if (!stopError) stopError = { jobId: task.job.id, error: e };
+          // A fatal error stops the other lanes' chapters too
+          jobRef.current?.abort();
+        } finally {
+          inFlight.delete(task.key);
+          wakeLanes();
+        }
+      }
+    };
+
+    try {
+      await Promise.all(Array.from({ length: Math.max(1, queueRef.current.concurrency) }, lane));
+      const failure = stopError as { jobId: string, error: any } | null;
+      if (failure) {
+        updateQueue(queue => ({ ...queue, paused: true }));
+        if (!isCancelledError(failure.error)) {
+          updateQueue(queue => failQueueJob(queue, failure.jobId, failure.error.message));
+          setErrorModal({ show: true, title: "Job Queue Error", msg: failure.error.message });
+        }
+      } else if (!queueRef.current.paused) {
+        const duration = Math.ceil((Date.now() - startTimeRef.current) / 1000);
+        setCompletionModal({ show: true, msg: t('queueCompleted'), seconds: duration });
+      }
+    } finally {
+      setProcessingState(null);
+      startTimeRef.current = 0;
+      jobRef.current = null;
+    }
+  };
+
+  const handleEnqueue = (kind: QueueJob['kind'], chapterIndices: number[]) => {
+    if (chapterIndices.length === 0) return;
+    const estimate = kind === 'translate'
+      ? estimateChapterTranslation(chapterIndices)
+      : estimateNotes(chapterIndices.flatMap(i => chapters[i].segments.filter(s => !s.isChapterHeader && s.enText && s.status !== 'done').map(s => s.id)));
+    if ((estimate.promptTokens > 0 || estimate.completionTokens > 0) && !confirmEstimate(estimate)) return;
+
+    const queue = projectQueue();
+    updateQueue(() => ({ ...queue, jobs: [...queue.jobs, createQueueJob(kind, chapterIndices)] }));
+    if (!queueRef.current.paused) runQueue();
+  };
+
+  const handlePauseQueue = () => updateQueue(queue => ({ ...queue, paused: true }));
+
+  const handleResumeQueue = () => {
+    updateQueue(() => ({ ...projectQueue(), paused: false }));
+    runQueue();
+  };
+
+  const handleRetryQueueJob = (jobId: string) => {
+    updateQueue(queue => retryQueueJob(queue, jobId));
+    if (!queueRef.current.paused) runQueue();
+  };
+
+  // Removing the running job lets its chapters in progress finish; nothing new is started for it
+  const handleRemoveQueueJob = (jobId: string) => {
+    updateQueue(queue => ({ ...queue, jobs: queue.jobs.filter(job => job.id !== jobId) }));
+  };
+
+  const handleClearFinishedJobs = () => {
+    updateQueue(queue => ({ ...queue, jobs: queue.jobs.filter(job => job.status === 'queued') }));
+  };
+
+  const handleQueueConcurrency = (concurrency: number) => {
+    updateQueue(queue => ({ ...queue, concurrency }));
+  };
+
+  // --- Alternative Translations ---
+
+  // The main model first, then the comparison models from settings
+  const alternativeModels = useMemo<ModelRef[]>(() => [
+    { apiMode: settings.apiMode, model: settings.model, baseUrl: '', apiKey: '' },
+    ...settings.compareModels.filter(m => m.model.trim())
+  ], [settings.apiMode, settings.model, settings.compareModels]);
+
+  const findSegment = (segmentId: string | null) => {
+    const index = chapters.findIndex(c => c.segments.some(s => s.id === segmentId));
+    return index === -1 ? null : { index, segment: chapters[index].segments.find(s => s.id === segmentId)! };
+  };
+
+  // A fresh translation of one segment from the given model (or its fallbacks), with the same context
+  // a chapter run would send. The response cache is skipped, or the main model would repeat its earlier answer.
+  const handleGenerateAlternative = async (model: ModelRef): Promise<{ text: string, model: string }> => {
+    const modelSettings = settingsForModel(settings, model);
+    if (!modelSettings.apiKey && getProviderInfo(model.apiMode).requiresApiKey) throw new Error(t('apiMissing'));
+    const found = findSegment(alternativesFor);
+    if (!found) throw new Error(t('segmentNotFound'));
+
+    const { index, segment } = found;
+    const context: TranslationContext = {
+      pairs: precedingPairs(chapters, index, segment.id, settings.contextPairs),
+      synopsis: settings.useSynopsis ? chapters[index - 1]?.synopsis : undefined
+    };
+    const service = new AIService(modelSettings, promptOptions, setRetryStatus);
+    let producedBy = modelRefLabel(model);
+    const [text] = await service.translateSegments([segment.text], undefined, context, {
+      onUsage: usageFor([chapters[index].title]),
+      onModel: label => { producedBy = label; }
+    });
+    return { text, model: producedBy };
+  };
+
+  const handleChooseAlternative = (enText: string, model: string) => {
+    const found = findSegment(alternativesFor);
+    if (!found) return;
+    const newChapters = replaceTranslation(chapters, found.index, found.segment.id, enText, model);
+    const { graded } = projectConfig;
+    if (graded.enabled) {
+      // Copied: an unchanged text leaves the segment shared with the current state
+      const score = scoreTextLevel(enText, graded.targetLevel, vocabDB, projectConfig.glossary);
+      const levelFlag = score.ratio > graded.maxOutOfLevelRatio ? score : undefined;
+      const chapter = newChapters[found.index];
+      newChapters[found.index] = { ...chapter, segments: chapter.segments.map(s => s.id === found.segment.id ? { ...s, levelFlag } : s) };
     }
+    setChapters(newChapters);
+    saveNovelState(newChapters);
   };
 
-  const addToPdfState = (isHeader: boolean, cn: string, en?: string, vocab?: any[]) => {
+  const addToPdfState = (isHeader: boolean, cn: string, en?: string, vocab?: any[], volume?: string) => {
     setPdfItems(prev => {
       const items = [...prev];
       if (isHeader) {
-        items.push({ type: 'header', data: { text: cn } });
+        items.push({ type: 'header', data: { text: cn, volume } });
       } else {
         items.push({ type: 'content', data: { cn, en, vocab } });
       }
@@ -329,74 +1002,102 @@ const App: React.FC = () => {
     });
   };
 
-  const handleGenerateNotes = async (segmentIds: string[]) => {
-     if (!validateApiConfig()) return;
-
-     startTimeRef.current = Date.now();
-     setProcessingState({ type: segmentIds.length > 1 ? 'batch' : 'segment', id: segmentIds.length === 1 ? segmentIds[0] : 'batch' });
-
+  // Generates notes for the given segments in place, in batches, applying results as they arrive
+  // (streamed or per batch). Returns the segments that got no notes; they are marked 'error'.
+  // If the job throws (fatal error, Stop), unfinished segments go back to pending first.
+  const generateNotes = async (
+    segmentIds: string[],
+    newChapters: Chapter[],
+    signal?: AbortSignal,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<Segment[]> => {
      // 1. Prepare payload and set loading state
-     const newChapters = [...chapters];
      const payload: any[] = [];
+     const payloadChapters: string[] = []; // Chapter title per payload item, for usage accounting
+     const targets = new Map<string, Segment>();
 
      segmentIds.forEach(id => {
        for (const chap of newChapters) {
          const seg = chap.segments.find(s => s.id === id);
          if (seg && seg.enText) {
             seg.status = 'processing';
-            const targets = analyzeTextForVocab(seg.enText, vocabDB);
-            payload.push({
-              id: seg.id,
-              en: seg.enText,
-              focus_words: targets.map(t => t.word)
-            });
+            payload.push(notesPayloadItem(seg, vocabDB, projectConfig.glossary));
+            payloadChapters.push(chap.title);
+            targets.set(seg.id, seg);
          }
        }
      });
-     setChapters(newChapters);
+     setChapters([...newChapters]);
+     onProgress?.(0, payload.length);
 
-     // 2. Call API
+     // 2. Call API in batches (whole volumes would exceed a single response)
+     const succeededIds = new Set<string>();
      try {
-       const results = await aiService.generateVocabNotes(payload);
-       
-       const succeededIds = new Set<string>();
+       // 3. Update state as each result arrives (streamed) or with the whole batch
+       const applyResult = (res: VocabResult) => {
+         const seg = res && targets.get(res.id);
+         if (!seg) return;
+         succeededIds.add(res.id);
+         seg.vocabResult = res;
+         seg.notesStale = undefined;
+         seg.status = 'done';
+       };
+
+       for (let i = 0; i < payload.length; i += NOTES_BATCH_SIZE) {
+         const batch = payload.slice(i, i + NOTES_BATCH_SIZE);
+         const onModel = (model: string, indices: number[]) => indices.forEach(k => {
+           const seg = targets.get(batch[k].id);
+           if (seg) seg.notesBy = model;
+         });
+         const results = await aiService.generateVocabNotes(batch, res => {
+           applyResult(res);
+           setChapters([...newChapters]);
+           onProgress?.(succeededIds.size, payload.length);
+         }, { signal, onUsage: usageFor(payloadChapters.slice(i, i + NOTES_BATCH_SIZE)), onModel });
        
-       // 3. Update state
-       results.forEach((res: VocabResult) => {
-          succeededIds.add(res.id);
-          for (const chap of newChapters) {
-            const seg = chap.segments.find(s => s.id === res.id);
-            if (seg) {
-              seg.vocabResult = res;
-              seg.status = 'done';
-            }
-          }
-       });
-
-       // Identify failures
-       const failedItems: string[] = [];
-       payload.forEach(p => {
-           if (!succeededIds.has(p.id)) {
-               // Find segment to mark as error
-               for (const chap of newChapters) {
-                   const seg = chap.segments.find(s => s.id === p.id);
-                   if (seg) {
-                       seg.status = 'error';
-                       // extract short text for display
-                       const previewText = seg.text.length > 40 ? seg.text.substring(0, 40) + '...' : seg.text;
-                       failedItems.push(previewText);
-                   }
-               }
-           }
-       });
+         results.forEach(applyResult);
+         setChapters([...newChapters]);
+         onProgress?.(succeededIds.size, payload.length);
+       }
+     } catch (e) {
+       // Revert status (segments finished by earlier batches or streamed in keep their notes)
+       targets.forEach(seg => { if (seg.status === 'processing') seg.status = 'pending'; });
+       setChapters([...newChapters]);
+       saveNovelState(newChapters);
+       throw e;
+     }
+
+     // Identify failures
+     const failed = Array.from(targets.values()).filter(seg => !succeededIds.has(seg.id));
+     failed.forEach(seg => { seg.status = 'error'; });
+
+     setChapters([...newChapters]);
+     saveNovelState(newChapters);
+     return failed;
+  };
+
+  // volumeId: first chapter index of the volume when notes are generated for a whole volume
+  const handleGenerateNotes = async (segmentIds: string[], volumeId?: number) => {
+     if (isJobRunning() || !validateApiConfig()) return;
+     if (segmentIds.length > 1 && !confirmEstimate(estimateNotes(segmentIds))) return;
+
+     startTimeRef.current = Date.now();
+     if (volumeId !== undefined) {
+       setProcessingState({ type: 'volume', id: volumeId });
+     } else {
+       setProcessingState({ type: segmentIds.length > 1 ? 'batch' : 'segment', id: segmentIds.length === 1 ? segmentIds[0] : 'batch' });
+     }
+     const signal = startJob();
 
-       setChapters(newChapters);
-       saveNovelState(currentFileName, newChapters);
+     try {
+       const failed = await generateNotes(segmentIds, [...chapters], signal, updateProgress);
 
        // Stop Timer
        const duration = Math.ceil((Date.now() - startTimeRef.current) / 1000);
 
-       if (failedItems.length > 0) {
+       if (failed.length > 0) {
+           // extract short text for display
+           const failedItems = failed.map(seg => seg.text.length > 40 ? seg.text.substring(0, 40) + '...' : seg.text);
            setErrorModal({
                show: true,
                title: "There was an unexpected error.",
@@ -407,18 +1108,11 @@ const App: React.FC = () => {
        }
 
      } catch (e: any) {
-       setErrorModal({ show: true, title: "Notes Generation Error", msg: e.message });
-       // Revert status
-       segmentIds.forEach(id => {
-         for (const chap of newChapters) {
-           const seg = chap.segments.find(s => s.id === id);
-           if (seg) seg.status = 'pending';
-         }
-       });
-       setChapters(newChapters);
+       if (!isCancelledError(e)) setErrorModal({ show: true, title: "Notes Generation Error", msg: e.message });
      } finally {
        setProcessingState(null);
        startTimeRef.current = 0;
+       jobRef.current = null;
      }
   };
 
@@ -430,7 +1124,9 @@ const App: React.FC = () => {
            if (seg) {
               // Add if it's a chapter header OR if it is done (has results)
               if (seg.isChapterHeader || seg.status === 'done') {
-                 addToPdfState(seg.isChapterHeader, seg.text, seg.enText, seg.vocabResult?.vocab);
+                 // English-source paragraphs carry their Chinese line in zhText (may be absent)
+                 const cn = !seg.isChapterHeader && projectConfig.sourceLanguage === 'en' ? seg.zhText || '' : seg.text;
+                 addToPdfState(seg.isChapterHeader, cn, seg.enText, seg.vocabResult?.vocab, chap.volume);
                  addedCount++;
               }
            }
@@ -457,26 +1153,30 @@ const App: React.FC = () => {
       timestamp: Date.now(),
       fileName: currentFileName,
       chapters,
-      pdfItems
+      pdfItems,
+      config: projectConfig
     };
     const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `project_${currentFileName.replace('.txt', '')}_backup.json`;
+    a.download = `project_${currentFileName.replace(/\.(txt|epub)$/i, '')}_backup.json`;
     a.click();
     URL.revokeObjectURL(url);
   };
 
   const handleImportProject = async (file: File) => {
+    if (blockedByJob()) return;
     try {
       const text = await file.text();
       const data = JSON.parse(text);
       if (data.chapters && data.fileName) {
+        const config: ProjectConfig = { ...DEFAULT_PROJECT_CONFIG, ...data.config };
         setChapters(data.chapters);
         setCurrentFileName(data.fileName);
         setPdfItems(data.pdfItems || []);
-        saveNovelState(data.fileName, data.chapters);
+        setProjectConfig(config);
+        saveNovelState(data.chapters, config, data.fileName);
         alert(t('projectLoaded'));
       } else {
         throw new Error("Invalid project file format");
@@ -559,6 +1259,7 @@ const App: React.FC = () => {
                 fileName={currentFileName}
                 onImport={handleNovelImport}
                 onImportProject={handleImportProject}
+                onPasteText={() => setIsPasteOpen(true)}
                 onClear={clearNovel}
                 t={t}
               />
@@ -573,8 +1274,45 @@ const App: React.FC = () => {
                    <span className="text-sm font-bold text-gray-500 flex items-center gap-1">
                      <BookOpen size={16}/> {currentFileName}
                    </span>
+                   {projectConfig.sourceLanguage === 'en' && (
+                     <span className="text-xs bg-blue-50 text-blue-700 px-2 py-0.5 rounded border border-blue-200">{t('sourceEnglish')}</span>
+                   )}
                  </div>
                  <div className="flex gap-2">
+                    {processingState && (
+                      <button 
+                        onClick={handleCancelJob}
+                        className="text-xs px-3 py-1.5 bg-red-50 text-red-700 rounded border border-red-200 hover:bg-red-100 font-bold flex items-center gap-1"
+                      >
+                        <StopCircle size={14} /> {t('stopJob')}
+                      </button>
+                    )}
+                    {projectConfig.sourceLanguage === 'zh' && (
+                      <button 
+                        onClick={() => setIsGradedOpen(true)}
+                        className={`text-xs px-3 py-1.5 rounded border font-bold flex items-center gap-1 ${projectConfig.graded.enabled ? 'bg-green-50 text-green-700 border-green-200 hover:bg-green-100' : 'bg-gray-50 text-gray-700 border-gray-200 hover:bg-gray-100'}`}
+                      >
+                        <GraduationCap size={14} /> {projectConfig.graded.enabled ? t('gradedLevelBadge', { level: projectConfig.graded.targetLevel }) : t('gradedReader')}
+                      </button>
+                    )}
+                    <button 
+                      onClick={() => setIsGlossaryOpen(true)}
+                      className="text-xs px-3 py-1.5 bg-gray-50 text-gray-700 rounded border border-gray-200 hover:bg-gray-100 font-bold flex items-center gap-1"
+                    >
+                      <BookMarked size={14} /> {t('glossary')} ({projectConfig.glossary.length})
+                    </button>
+                    <button 
+                      onClick={() => setIsQueueOpen(true)}
+                      className={`text-xs px-3 py-1.5 rounded border font-bold flex items-center gap-1 ${processingState?.type === 'queue' ? 'bg-green-50 text-green-700 border-green-200 hover:bg-green-100' : 'bg-gray-50 text-gray-700 border-gray-200 hover:bg-gray-100'}`}
+                    >
+                      <ListOrdered size={14} /> {t('jobQueue')} ({jobQueue.fileName === currentFileName ? jobQueue.jobs.filter(job => job.status === 'queued').length : 0})
+                    </button>
+                    <button 
+                      onClick={() => setIsUsageOpen(true)}
+                      className="text-xs px-3 py-1.5 bg-gray-50 text-gray-700 rounded border border-gray-200 hover:bg-gray-100 font-bold flex items-center gap-1"
+                    >
+                      <Coins size={14} /> {t('usage')}
+                    </button>
                     <button 
                       onClick={handleExportProject}
                       className="text-xs px-3 py-1.5 bg-blue-50 text-blue-700 rounded border border-blue-200 hover:bg-blue-100 font-bold flex items-center gap-1"
@@ -588,13 +1326,33 @@ const App: React.FC = () => {
                  </div>
               </div>
 
+              {retryStatus && (
+                <div className="mb-3 px-3 py-2 bg-amber-50 text-amber-800 border border-amber-200 rounded text-xs font-bold flex items-center gap-2">
+                  <AlertTriangle size={14} />
+                  {t('retryingIn', {
+                    reason: t(`retryReason_${retryStatus.kind}` as keyof typeof TRANSLATIONS.en),
+                    seconds: Math.max(0, Math.ceil((retryStatus.retryAt - retryNow) / 1000)),
+                    attempt: retryStatus.attempt,
+                    max: retryStatus.maxAttempts
+                  })}
+                </div>
+              )}
+
               <ChapterList 
                 chapters={chapters}
                 currentChapterIndex={currentChapterIndex}
                 onSelectChapter={setCurrentChapterIndex}
                 onTranslateChapter={handleTranslateChapter}
+                onRetryFailedSegments={(index) => handleTranslateChapter(index, true)}
+                onTranslateVolume={handleTranslateVolume}
+                onReverseTranslateChapter={handleReverseTranslateChapter}
+                onGenerateVolumeNotes={handleGenerateVolumeNotes}
                 onGenerateNotes={handleGenerateNotes}
                 onBatchAddPdf={handleBatchAddPdf}
+                onPreviewPrompt={(segmentIds) => setPromptEditor({ segmentIds })}
+                onRetranslateSegment={setAlternativesFor}
+                onEditChapters={handleEditChapters}
+                sourceLanguage={projectConfig.sourceLanguage}
                 processingState={processingState}
                 timer={timerSeconds}
                 t={t}
@@ -636,6 +1394,95 @@ const App: React.FC = () => {
         onClose={() => setIsSettingsOpen(false)}
         settings={settings}
         onSave={saveSettings}
+        onOpenPromptTemplates={() => {
+          setIsSettingsOpen(false);
+          setPromptEditor({ segmentIds: [] });
+        }}
+        projectName={currentFileName}
+        t={t}
+      />
+
+      <PromptTemplatesModal
+        isOpen={!!promptEditor}
+        onClose={() => setPromptEditor(null)}
+        settings={settings}
+        activePrompts={projectConfig.activePrompts}
+        promptOptions={promptOptions}
+        previewSegments={promptPreviewSegments}
+        previewFromSelection={!!promptEditor && promptEditor.segmentIds.length > 0}
+        vocabDB={vocabDB}
+        onSave={handleSavePromptTemplates}
+        t={t}
+      />
+
+      <GlossaryModal
+        isOpen={isGlossaryOpen}
+        onClose={() => setIsGlossaryOpen(false)}
+        glossary={projectConfig.glossary}
+        onSave={handleSaveGlossary}
+        onExtract={handleExtractGlossary}
+        t={t}
+      />
+
+      <GradedReaderModal
+        isOpen={isGradedOpen}
+        onClose={() => setIsGradedOpen(false)}
+        options={projectConfig.graded}
+        onSave={handleSaveGraded}
+        t={t}
+      />
+
+      <UsageModal
+        isOpen={isUsageOpen}
+        onClose={() => setIsUsageOpen(false)}
+        records={usageLedger[currentFileName] || []}
+        chapterTitles={chapters.map(c => c.title)}
+        settings={settings}
+        onSaveSettings={handleSaveUsageSettings}
+        onReset={handleResetUsage}
+        t={t}
+      />
+
+      <AlternativesModal
+        segment={findSegment(alternativesFor)?.segment || null}
+        models={alternativeModels}
+        onGenerate={handleGenerateAlternative}
+        onChoose={handleChooseAlternative}
+        onClose={() => setAlternativesFor(null)}
+        vocabDB={vocabDB}
+        glossary={projectConfig.glossary}
+        t={t}
+      />
+
+      <JobQueueModal
+        isOpen={isQueueOpen}
+        onClose={() => setIsQueueOpen(false)}
+        queue={jobQueue.fileName === currentFileName ? jobQueue : { ...emptyQueue(currentFileName), concurrency: jobQueue.concurrency }}
+        chapterTitles={chapters.map(c => c.title)}
+        isRunning={processingState?.type === 'queue'}
+        isBusy={!!processingState && processingState.type !== 'queue'}
+        onEnqueue={handleEnqueue}
+        onPause={handlePauseQueue}
+        onResume={handleResumeQueue}
+        onRetry={handleRetryQueueJob}
+        onRemove={handleRemoveQueueJob}
+        onClearFinished={handleClearFinishedJobs}
+        onConcurrencyChange={handleQueueConcurrency}
+        t={t}
+      />
+
+      <PasteTextModal
+        isOpen={isPasteOpen}
+        onClose={() => setIsPasteOpen(false)}
+        onSubmit={handlePasteSubmit}
+        t={t}
+      />
+
+      <ImportPreviewModal
+        pendingImport={pendingImport}
+        config={projectConfig}
+        onConfirm={handleConfirmImport}
+        onCancel={() => setPendingImport(null)}
         t={t}
       />
 
@@ -0,0 +1,176 @@
+import React, { useState, useEffect } from 'react';
+import { DifficultyScore, GlossaryEntry, ModelRef, Segment, VocabDB } from '../types';
+import { modelRefLabel } from '../services/providers/registry';
+import { scoreDifficulty } from '../utils/textProcessing';
+import { diffWords } from '../utils/textDiff';
+import { Shuffle, X, Loader2, Sparkles, CheckCircle } from 'lucide-react';
+
+interface AlternativesModalProps {
+  segment: Segment | null; // Open while set
+  models: ModelRef[]; // The main model first, then the comparison models from settings
+  onGenerate: (model: ModelRef) => Promise<{ text: string, model: string }>; // model: the one that answered (a fallback, possibly)
+  onChoose: (enText: string, model: string) => void;
+  onClose: () => void;
+  vocabDB: VocabDB;
+  glossary: GlossaryEntry[];
+  t: (key: any, params?: any) => string;
+}
+
+interface Candidate {
+  id: number;
+  model: ModelRef;
+  text?: string;
+  producedBy?: string;
+  error?: string;
+}
+
+const Score: React.FC<{ score: DifficultyScore, baseline?: DifficultyScore, t: (key: any, params?: any) => string }> = ({ score, baseline, t }) => {
+  const delta = baseline ? score.average - baseline.average : 0;
+  const color = Math.abs(delta) < 0.05 ? 'text-gray-500' : delta < 0 ? 'text-green-700' : 'text-red-600';
+  return (
+    <div className="text-[10px] font-bold flex gap-2" title={score.offList.join(', ')}>
+      <span className={color}>
+        {t('difficultyAverage', { level: score.average.toFixed(1) })}
+        {baseline && Math.abs(delta) >= 0.05 && ` (${delta > 0 ? '+' : ''}${delta.toFixed(1)})`}
+      </span>
+      <span className="text-gray-400">{t('offListWords', { count: score.offList.length })}</span>
+    </div>
+  );
+};
+
+export const AlternativesModal: React.FC<AlternativesModalProps> = ({ segment, models, onGenerate, onChoose, onClose, vocabDB, glossary, t }) => {
+  const [selected, setSelected] = useState<Set<number>>(new Set([0]));
+  const [candidates, setCandidates] = useState<Candidate[]>([]);
+
+  useEffect(() => {
+    setSelected(new Set([0]));
+    setCandidates([]);
+  }, [segment?.id]);
+
+  if (!segment) return null;
+
+  const current = segment.enText || '';
+  const currentScore = scoreDifficulty(current, vocabDB, glossary);
+
+  const toggleModel = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  // Each selected model is asked on its own; columns fill in as answers arrive
+  const handleGenerate = () => {
+    const batch = Array.from(selected).sort((a, b) => a - b).map((index, i) => ({ id: Date.now() + i, model: models[index] }));
+    setCandidates(prev => [...prev, ...batch]);
+    batch.forEach(async ({ id, model }) => {
+      try {
+        const { text, model: producedBy } = await onGenerate(model);
+        setCandidates(prev => prev.map(c => c.id === id ? { ...c, text, producedBy } : c));
+      } catch (e) {
+        setCandidates(prev => prev.map(c => c.id === id ? { ...c, error: (e as Error).message } : c));
+      }
+    });
+  };
+
+  const handleChoose = (text: string, model: string) => {
+    onChoose(text, model);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[999] flex justify-center items-center print:hidden">
+      <div className="bg-white rounded-xl shadow-2xl w-[1100px] max-w-[95vw] max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-start p-6 border-b">
+          <div>
+            <h3 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+              <Shuffle size={24} /> {t('alternatives')}
+            </h3>
+            <p className="text-sm text-gray-700 font-cn mt-2">{segment.text}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+
+        {/* Models */}
+        <div className="px-6 py-3 border-b flex items-center gap-4 flex-wrap">
+          {models.map((model, i) => (
+            <label key={i} className="flex items-center gap-2 text-xs font-bold text-gray-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={selected.has(i)}
+                onChange={() => toggleModel(i)}
+                className="w-4 h-4 cursor-pointer"
+              />
+              {modelRefLabel(model)}
+              {i === 0 && <span className="text-[10px] text-gray-400 font-normal">{t('mainModel')}</span>}
+            </label>
+          ))}
+          <button
+            onClick={handleGenerate}
+            disabled={selected.size === 0}
+            className="ml-auto bg-primary text-white px-4 py-1.5 rounded font-bold hover:bg-blue-900 transition-colors flex items-center gap-1 text-sm disabled:bg-gray-300"
+          >
+            <Sparkles size={14} /> {t('generateAlternatives')}
+          </button>
+        </div>
+        {models.length === 1 && <p className="px-6 pt-2 text-[10px] text-gray-400">{t('compareModelsHint')}</p>}
+
+        {/* Side by side */}
+        <div className="flex-1 overflow-auto p-6">
+          <div className="flex gap-3 items-stretch">
+            <div className="min-w-[260px] flex-1 border-2 border-primary/30 rounded p-3 flex flex-col gap-2 bg-blue-50/40">
+              <div className="text-xs font-bold text-primary">{t('currentTranslation')}</div>
+              <p className="font-serif text-base leading-relaxed text-gray-800 flex-1">{current}</p>
+              <Score score={currentScore} t={t} />
+            </div>
+
+            {candidates.map(candidate => (
+              <div key={candidate.id} className="min-w-[260px] flex-1 border border-gray-200 rounded p-3 flex flex-col gap-2">
+                <div className="text-xs font-bold text-gray-600 truncate" title={modelRefLabel(candidate.model)}>{modelRefLabel(candidate.model)}</div>
+                {candidate.producedBy && candidate.producedBy !== modelRefLabel(candidate.model) && (
+                  <div className="text-[10px] text-amber-700 -mt-1">{t('answeredByFallback', { model: candidate.producedBy })}</div>
+                )}
+                {candidate.error ? (
+                  <p className="text-xs text-red-600 flex-1 break-words">{candidate.error}</p>
+                ) : candidate.text === undefined ? (
+                  <div className="flex-1 flex items-center justify-center py-6 text-gray-400">
+                    <Loader2 size={20} className="animate-spin" />
+                  </div>
+                ) : (
+                  <>
+                    <p className="font-serif text-base leading-relaxed text-gray-800 flex-1">
+                      {diffWords(current, candidate.text).map((part, i) => (
+                        <span
+                          key={i}
+                          className={part.type === 'added' ? 'bg-green-100 text-green-800' : part.type === 'removed' ? 'bg-red-50 text-red-400 line-through' : ''}
+                        >
+                          {part.text}
+                        </span>
+                      ))}
+                    </p>
+                    <Score score={scoreDifficulty(candidate.text, vocabDB, glossary)} baseline={currentScore} t={t} />
+                    <button
+                      onClick={() => handleChoose(candidate.text!, candidate.producedBy!)}
+                      disabled={candidate.text === current}
+                      className="text-xs px-3 py-1.5 bg-green-50 text-green-700 rounded border border-green-200 hover:bg-green-100 font-bold flex items-center justify-center gap-1 disabled:opacity-50"
+                    >
+                      <CheckCircle size={14} /> {t('useAlternative')}
+                    </button>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {segment.vocabResult && (
+          <p className="px-6 pb-4 text-[10px] text-amber-700">{t('alternativesNotesStale')}</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,16 +1,28 @@
 
-import React, { useState } from 'react';
-import { Chapter } from '../types';
-import { ChevronRight, FolderOpen, Globe, Wand2, CheckSquare, Square, FileText, Pin, Loader2, PlusCircle } from 'lucide-react';
+import React, { useState, useRef } from 'react';
+import { Chapter, ProcessingState, SourceLanguage } from '../types';
+import {
+  renameChapter, mergeChapterWithNext, splitChapterAt,
+  editSegmentText, mergeSegmentWithNext, mergeDropsTranslation, splitSegmentAt, deleteSegment, insertSegmentAfter
+} from '../utils/chapterEditing';
+import { ChevronRight, ChevronDown, FolderOpen, Globe, Wand2, CheckSquare, Square, FileText, Pin, Loader2, PlusCircle, Library, Pencil, Combine, Scissors, ListPlus, SplitSquareVertical, Trash2, Languages, RotateCcw, Eye, Shuffle } from 'lucide-react';
 
 interface ChapterListProps {
   chapters: Chapter[];
   currentChapterIndex: number;
   onSelectChapter: (index: number) => void;
   onTranslateChapter: (index: number) => void;
+  onRetryFailedSegments: (index: number) => void;
+  onTranslateVolume: (chapterIndices: number[]) => void;
+  onReverseTranslateChapter: (index: number) => void;
+  onGenerateVolumeNotes: (chapterIndices: number[]) => void;
   onGenerateNotes: (segmentIds: string[]) => void;
   onBatchAddPdf: (segmentIds: string[]) => void;
-  processingState: { type: 'chapter' | 'batch' | 'segment', id: string | number } | null;
+  onPreviewPrompt: (segmentIds: string[]) => void;
+  onRetranslateSegment: (segmentId: string) => void;
+  onEditChapters: (chapters: Chapter[]) => void;
+  sourceLanguage: SourceLanguage;
+  processingState: ProcessingState | null;
   timer: number;
   t: (key: any, params?: any) => string;
 }
@@ -20,36 +32,145 @@ export const ChapterList: React.FC<ChapterListProps> = ({
   currentChapterIndex, 
   onSelectChapter,
   onTranslateChapter,
+  onRetryFailedSegments,
+  onTranslateVolume,
+  onReverseTranslateChapter,
+  onGenerateVolumeNotes,
   onGenerateNotes,
   onBatchAddPdf,
+  onPreviewPrompt,
+  onRetranslateSegment,
+  onEditChapters,
+  sourceLanguage,
   processingState,
   timer,
   t
 }) => {
   const [selectedSegments, setSelectedSegments] = useState<Set<string>>(new Set());
+  // Collapsed volumes, keyed by the volume's first chapter index
+  const [collapsedVolumes, setCollapsedVolumes] = useState<Set<number>>(new Set());
+  const [isEditMode, setIsEditMode] = useState(false);
+  // Last caret position per segment textarea, used by "split at cursor"
+  const cursorRef = useRef<Record<string, number>>({});
+
+  // Editing is locked while an AI job is writing into the segments
+  const canEdit = !processingState;
+
+  // "Processing 12/40 · 35s" once the running job reports progress
+  const progress = processingState?.progress;
+  const progressLabel = `${t('processing')} ${progress ? `${progress.done}/${progress.total} · ` : ''}${timer}s`;
+
+  const countFailed = (chap: Chapter) => chap.segments.filter(s => s.status === 'error' && !s.enText).length;
+  const countAboveLevel = (chap: Chapter) => chap.segments.filter(s => s.levelFlag).length;
+
+  const handleRenameChapter = (index: number) => {
+    const title = prompt(t('renameChapter'), chapters[index].title);
+    if (title && title.trim()) onEditChapters(renameChapter(chapters, index, title.trim()));
+  };
+
+  const handleMergeChapter = (index: number) => {
+    if (!confirm(t('confirmMergeChapter', { a: chapters[index].title, b: chapters[index + 1].title }))) return;
+    onEditChapters(mergeChapterWithNext(chapters, index));
+  };
 
   // Chapter List View
   if (currentChapterIndex === -1) {
+    // Group consecutive chapters sharing a volume heading
+    const groups: { volume?: string, indices: number[] }[] = [];
+    chapters.forEach((chap, idx) => {
+      const last = groups[groups.length - 1];
+      if (last && last.volume === chap.volume) last.indices.push(idx);
+      else groups.push({ volume: chap.volume, indices: [idx] });
+    });
+
+    const toggleVolume = (id: number) => {
+      const newSet = new Set(collapsedVolumes);
+      if (newSet.has(id)) newSet.delete(id);
+      else newSet.add(id);
+      setCollapsedVolumes(newSet);
+    };
+
+    const renderChapterRow = (idx: number, nested: boolean) => {
+      const chap = chapters[idx];
+      return (
+        <div 
+          key={idx}
+          onClick={() => onSelectChapter(idx)}
+          className={`bg-white p-4 rounded-lg border-l-4 border-yellow-500 shadow-sm hover:shadow-md cursor-pointer flex justify-between items-center transition-all ${nested ? 'ml-6' : ''}`}
+        >
+          <span className="font-medium text-gray-800">{chap.title}</span>
+          <div className="flex items-center gap-4">
+            {canEdit && (
+              <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                <button onClick={() => handleRenameChapter(idx)} className="p-1 text-gray-300 hover:text-primary" title={t('renameChapter')}>
+                  <Pencil size={14} />
+                </button>
+                {idx < chapters.length - 1 && (
+                  <button onClick={() => handleMergeChapter(idx)} className="p-1 text-gray-300 hover:text-primary" title={t('mergeWithNextChapter')}>
+                    <Combine size={14} />
+                  </button>
+                )}
+              </div>
+            )}
+            <span className="text-xs text-gray-400">{chap.segments.length} {t('segments')}</span>
+            {chap.isTranslated && <span className="text-xs bg-green-100 text-green-700 px-2 py-0.5 rounded">{t('translated')}</span>}
+            {countFailed(chap) > 0 && <span className="text-xs bg-red-100 text-red-600 px-2 py-0.5 rounded">{t('failedCount', { count: countFailed(chap) })}</span>}
+            {countAboveLevel(chap) > 0 && <span className="text-xs bg-amber-100 text-amber-700 px-2 py-0.5 rounded">{t('aboveLevelCount', { count: countAboveLevel(chap) })}</span>}
+            <ChevronRight size={16} className="text-gray-400" />
+          </div>
+        </div>
+      );
+    };
+
     return (
       <div className="flex flex-col gap-3">
         <div className="flex items-center gap-2 text-primary font-bold text-lg mb-2">
            <FolderOpen /> {t('directory')}
         </div>
         <div className="text-sm text-gray-500 mb-2">{t('totalChapters', { count: chapters.length })}</div>
-        {chapters.map((chap, idx) => (
-          <div 
-            key={idx}
-            onClick={() => onSelectChapter(idx)}
-            className="bg-white p-4 rounded-lg border-l-4 border-yellow-500 shadow-sm hover:shadow-md cursor-pointer flex justify-between items-center transition-all"
-          >
-            <span className="font-medium text-gray-800">{chap.title}</span>
-            <div className="flex items-center gap-4">
-              <span className="text-xs text-gray-400">{chap.segments.length} {t('segments')}</span>
-              {chap.isTranslated && <span className="text-xs bg-green-100 text-green-700 px-2 py-0.5 rounded">{t('translated')}</span>}
-              <ChevronRight size={16} className="text-gray-400" />
-            </div>
-          </div>
-        ))}
+        {groups.map(group => {
+          if (!group.volume) return group.indices.map(idx => renderChapterRow(idx, false));
+
+          const volumeId = group.indices[0];
+          const isCollapsed = collapsedVolumes.has(volumeId);
+          const translatedCount = group.indices.filter(i => chapters[i].isTranslated).length;
+          const isVolumeProcessing = processingState?.type === 'volume' && processingState?.id === volumeId;
+
+          return (
+            <React.Fragment key={`vol-${volumeId}`}>
+              <div 
+                onClick={() => toggleVolume(volumeId)}
+                className="bg-slate-50 p-4 rounded-lg border-l-4 border-primary shadow-sm cursor-pointer flex justify-between items-center"
+              >
+                <span className="font-bold text-gray-800 flex items-center gap-2">
+                  {isCollapsed ? <ChevronRight size={16} /> : <ChevronDown size={16} />}
+                  <Library size={16} className="text-primary" /> {group.volume}
+                </span>
+                <div className="flex items-center gap-3" onClick={(e) => e.stopPropagation()}>
+                  <span className="text-xs text-gray-400">
+                    {t('volumeProgress', { translated: translatedCount, count: group.indices.length })}
+                  </span>
+                  <button 
+                    onClick={() => onTranslateVolume(group.indices)}
+                    disabled={!!processingState || translatedCount === group.indices.length}
+                    className="text-xs px-3 py-1.5 bg-purple-50 text-purple-700 rounded border border-purple-200 hover:bg-purple-100 disabled:opacity-50 font-bold flex items-center gap-1"
+                  >
+                    {isVolumeProcessing ? <Loader2 size={14} className="animate-spin" /> : <Globe size={14} />}
+                    {isVolumeProcessing ? progressLabel : t('translateVolume')}
+                  </button>
+                  <button 
+                    onClick={() => onGenerateVolumeNotes(group.indices)}
+                    disabled={!!processingState || translatedCount === 0}
+                    className="text-xs px-3 py-1.5 bg-orange-50 text-orange-700 rounded border border-orange-200 hover:bg-orange-100 disabled:opacity-50 font-bold flex items-center gap-1"
+                  >
+                    <Wand2 size={14} /> {t('volumeNotes')}
+                  </button>
+                </div>
+              </div>
+              {!isCollapsed && group.indices.map(idx => renderChapterRow(idx, true))}
+            </React.Fragment>
+          );
+        })}
       </div>
     );
   }
@@ -82,7 +203,43 @@ export const ChapterList: React.FC<ChapterListProps> = ({
     setSelectedSegments(new Set());
   };
 
+  const handleSegmentBlur = (segId: string, original: string, value: string) => {
+    const text = value.trim();
+    if (text && text !== original) onEditChapters(editSegmentText(chapters, currentChapterIndex, segId, text));
+  };
+
+  const handleMergeSegment = (segId: string) => {
+    if (mergeDropsTranslation(chapters[currentChapterIndex], segId) && !confirm(t('confirmMergeDropsTranslation'))) return;
+    onEditChapters(mergeSegmentWithNext(chapters, currentChapterIndex, segId));
+  };
+
+  const handleSplitSegment = (segId: string) => {
+    const offset = cursorRef.current[segId];
+    if (!offset) {
+      alert(t('splitCursorHint'));
+      return;
+    }
+    onEditChapters(splitSegmentAt(chapters, currentChapterIndex, segId, offset));
+  };
+
+  const handleInsertSegment = (segId: string) => {
+    const text = prompt(t('insertSegment'));
+    if (text && text.trim()) onEditChapters(insertSegmentAfter(chapters, currentChapterIndex, segId, text.trim()));
+  };
+
+  const handleDeleteSegment = (segId: string) => {
+    if (confirm(t('confirmDeleteSegment'))) onEditChapters(deleteSegment(chapters, currentChapterIndex, segId));
+  };
+
+  const handleSplitChapter = (segId: string, text: string) => {
+    const title = prompt(t('newChapterTitle'), text.slice(0, 20));
+    if (title && title.trim()) onEditChapters(splitChapterAt(chapters, currentChapterIndex, segId, title.trim()));
+  };
+
   const isTranslating = processingState?.type === 'chapter' && processingState?.id === currentChapterIndex;
+  const isEnglishSource = sourceLanguage === 'en';
+  const failedCount = countFailed(chapter);
+  const missingChinese = isEnglishSource && chapter.segments.some(s => !s.isChapterHeader && !s.zhText);
   const isBatchProcessing = processingState?.type === 'batch';
 
   return (
@@ -90,21 +247,55 @@ export const ChapterList: React.FC<ChapterListProps> = ({
       {/* Navigation Toolbar */}
       <div className="sticky top-0 z-40 bg-white/95 backdrop-blur border-b border-gray-200 p-4 shadow-sm rounded-lg flex flex-wrap justify-between items-center gap-3">
         <div className="flex items-center gap-2 text-primary font-bold cursor-pointer hover:underline" onClick={() => onSelectChapter(-1)}>
-          <FolderOpen size={18} /> {t('directory')} <span className="text-gray-400">/</span> <span className="text-gray-700">{chapter.title}</span>
+          <FolderOpen size={18} /> {t('directory')} <span className="text-gray-400">/</span>
+          {chapter.volume && chapter.volume !== chapter.title && (
+            <><span className="text-gray-500">{chapter.volume}</span> <span className="text-gray-400">/</span></>
+          )}
+          <span className="text-gray-700">{chapter.title}</span>
         </div>
         
         <div className="flex gap-2">
+          <button 
+            onClick={() => setIsEditMode(!isEditMode)}
+            disabled={!canEdit}
+            className={`px-3 py-2 rounded-md text-sm font-bold flex items-center gap-2 transition-colors border disabled:opacity-50 ${isEditMode ? 'bg-primary text-white border-primary' : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'}`}
+          >
+            <Pencil size={16} /> {t('editMode')}
+          </button>
           {!chapter.isTranslated ? (
-            <button 
-              onClick={() => onTranslateChapter(currentChapterIndex)}
-              disabled={isTranslating}
-              className="bg-purple-600 hover:bg-purple-700 disabled:bg-purple-400 text-white px-4 py-2 rounded-md text-sm font-bold flex items-center gap-2 transition-colors shadow-sm"
-            >
-              {isTranslating ? <Loader2 size={16} className="animate-spin" /> : <Globe size={16} />} 
-              {isTranslating ? `${t('processing')} ${timer}s` : t('phase1')}
-            </button>
+            <div className="flex gap-2">
+              {failedCount > 0 && !isTranslating && (
+                <button 
+                  onClick={() => onRetryFailedSegments(currentChapterIndex)}
+                  disabled={!!processingState}
+                  className="bg-white hover:bg-red-50 disabled:opacity-50 text-red-600 border border-red-200 px-3 py-2 rounded-md text-sm font-bold flex items-center gap-2 transition-colors"
+                >
+                  <RotateCcw size={16} /> {t('retryFailedSegments', { count: failedCount })}
+                </button>
+              )}
+              <button 
+                onClick={() => onTranslateChapter(currentChapterIndex)}
+                disabled={!!processingState}
+                className="bg-purple-600 hover:bg-purple-700 disabled:bg-purple-400 text-white px-4 py-2 rounded-md text-sm font-bold flex items-center gap-2 transition-colors shadow-sm"
+              >
+                {isTranslating ? <Loader2 size={16} className="animate-spin" /> : <Globe size={16} />} 
+                {isTranslating ? progressLabel : t('phase1')}
+              </button>
+            </div>
           ) : (
              <div className="flex items-center gap-3">
+                {/* Optional Chinese line for English originals */}
+                {missingChinese && (
+                  <button 
+                    onClick={() => onReverseTranslateChapter(currentChapterIndex)}
+                    disabled={!!processingState}
+                    className="bg-white hover:bg-purple-50 disabled:opacity-50 text-purple-700 border border-purple-200 px-3 py-2 rounded-md text-sm font-bold flex items-center gap-2 transition-colors"
+                  >
+                    {isTranslating ? <Loader2 size={16} className="animate-spin" /> : <Languages size={16} />}
+                    {isTranslating ? progressLabel : t('addChineseLine')}
+                  </button>
+                )}
+
                 <button 
                   onClick={toggleSelectAll}
                   className="text-gray-600 hover:text-primary flex items-center gap-1 text-sm font-medium"
@@ -113,6 +304,16 @@ export const ChapterList: React.FC<ChapterListProps> = ({
                   {t('selectAll')}
                 </button>
 
+                {/* Dry-run of the prompt templates on the selection */}
+                <button 
+                  onClick={() => onPreviewPrompt(Array.from(selectedSegments))}
+                  disabled={selectedSegments.size === 0}
+                  className="text-gray-600 hover:text-primary disabled:text-gray-300 flex items-center gap-1 text-sm font-medium"
+                  title={t('previewPrompt')}
+                >
+                  <Eye size={16}/> {t('previewPrompt')}
+                </button>
+
                 {/* Batch Add to PDF */}
                 <button 
                   onClick={handleBatchAdd}
@@ -126,11 +327,11 @@ export const ChapterList: React.FC<ChapterListProps> = ({
                 {/* Batch Generate */}
                 <button 
                   onClick={handleBatchGenerate}
-                  disabled={selectedSegments.size === 0 || isBatchProcessing}
+                  disabled={selectedSegments.size === 0 || !!processingState}
                   className="bg-orange-600 hover:bg-orange-700 disabled:bg-gray-300 disabled:text-gray-500 text-white px-4 py-2 rounded-md text-sm font-bold flex items-center gap-2 transition-colors shadow-sm"
                 >
                   {isBatchProcessing ? <Loader2 size={16} className="animate-spin" /> : <Wand2 size={16} />} 
-                  {isBatchProcessing ? `${t('processing')} ${timer}s` : t('phase2', { count: selectedSegments.size })}
+                  {isBatchProcessing ? progressLabel : t('phase2', { count: selectedSegments.size })}
                 </button>
              </div>
           )}
@@ -139,7 +340,9 @@ export const ChapterList: React.FC<ChapterListProps> = ({
 
       {/* Segments List */}
       <div className="flex flex-col gap-3">
-        {chapter.segments.map(seg => {
+        {chapter.segments.map((seg, segIdx) => {
+            const isEditing = isEditMode && canEdit;
+            const nextSeg = chapter.segments[segIdx + 1];
             const isSegProcessing = processingState?.type === 'segment' && processingState?.id === seg.id;
             return (
               <div 
@@ -149,6 +352,8 @@ export const ChapterList: React.FC<ChapterListProps> = ({
                   relative p-4 rounded-lg border-l-4 shadow-sm transition-all
                   ${seg.isChapterHeader 
                     ? 'bg-orange-50 border-yellow-500' 
+                    : seg.status === 'error'
+                      ? 'bg-red-50 border-red-400'
                     : seg.status === 'done' 
                       ? 'bg-green-50 border-green-500' 
                       : chapter.isTranslated 
@@ -170,15 +375,48 @@ export const ChapterList: React.FC<ChapterListProps> = ({
                     {seg.isChapterHeader ? (
                       <h3 className="text-lg font-bold font-cn text-orange-800 flex items-center gap-2">
                         <Pin size={16} /> {seg.text}
+                        {isEditing && (
+                          <button onClick={() => handleRenameChapter(currentChapterIndex)} className="p-1 text-orange-300 hover:text-orange-700" title={t('renameChapter')}>
+                            <Pencil size={14} />
+                          </button>
+                        )}
                       </h3>
+                    ) : isEditing ? (
+                      <>
+                        <textarea
+                          key={`${seg.id}-${seg.text}`}
+                          defaultValue={seg.text}
+                          rows={Math.max(2, Math.ceil(seg.text.length / 40))}
+                          className={`w-full border rounded p-2 text-gray-700 leading-relaxed mb-2 focus:outline-none focus:ring-1 focus:ring-primary ${isEnglishSource ? 'font-serif text-lg' : 'font-cn text-[15px]'}`}
+                          onSelect={(e) => { cursorRef.current[seg.id] = e.currentTarget.selectionStart; }}
+                          onBlur={(e) => handleSegmentBlur(seg.id, seg.text, e.target.value)}
+                        />
+                        {seg.enText && !isEnglishSource && (
+                          <p className="text-primary font-serif text-lg leading-relaxed border-t border-dashed border-gray-200 pt-2">
+                            {seg.enText}
+                          </p>
+                        )}
+                      </>
                     ) : (
                       <>
-                        <p className="text-gray-700 font-cn text-[15px] leading-relaxed mb-2">{seg.text}</p>
+                        {isEnglishSource ? (
+                          seg.zhText && <p className="text-gray-700 font-cn text-[15px] leading-relaxed mb-2">{seg.zhText}</p>
+                        ) : (
+                          <p className="text-gray-700 font-cn text-[15px] leading-relaxed mb-2">{seg.text}</p>
+                        )}
                         {seg.enText && (
                           <p className="text-primary font-serif text-lg leading-relaxed border-t border-dashed border-gray-200 pt-2">
                             {seg.enText}
                           </p>
                         )}
+                        {seg.translatedBy && !isEnglishSource && (
+                          <p className="text-[10px] text-gray-400 mt-1">{t('translatedBy', { model: seg.translatedBy })}</p>
+                        )}
+                        {seg.levelFlag && (
+                          <p className="text-xs text-amber-700 mt-1" title={seg.levelFlag.words.join(', ')}>
+                            {t('aboveLevel', { percent: Math.round(seg.levelFlag.ratio * 100) })}: {seg.levelFlag.words.slice(0, 8).join(', ')}
+                          </p>
+                        )}
                       </>
                     )}
                   </div>
@@ -186,10 +424,28 @@ export const ChapterList: React.FC<ChapterListProps> = ({
                   {/* Status Indicator Only - Buttons Removed */}
                   <div className="flex flex-col gap-2 justify-start min-w-[80px] items-end">
                     {seg.status === 'done' && (
-                        <span className="text-xs bg-green-100 text-green-700 px-2 py-1 rounded font-bold flex items-center gap-1">
+                        <span className="text-xs bg-green-100 text-green-700 px-2 py-1 rounded font-bold flex items-center gap-1" title={seg.notesBy && t('notesBy', { model: seg.notesBy })}>
                            <FileText size={12}/> {t('done')}
                         </span>
                     )}
+                    {seg.status === 'translating' && (
+                        <Loader2 size={14} className="animate-spin text-purple-500" />
+                    )}
+                    {seg.status === 'error' && (
+                        <span className="text-xs bg-red-100 text-red-600 px-2 py-1 rounded font-bold">
+                           {t('failed')}
+                        </span>
+                    )}
+                    {seg.notesStale && seg.status !== 'processing' && (
+                        <span className="text-xs bg-amber-100 text-amber-700 px-2 py-1 rounded font-bold" title={t('notesStaleHint')}>
+                           {t('notesStale')}
+                        </span>
+                    )}
+                    {!isEditing && !isEnglishSource && seg.enText && canEdit && (
+                      <button onClick={() => onRetranslateSegment(seg.id)} className="p-1 text-gray-400 hover:text-primary" title={t('retranslateSegment')}>
+                        <Shuffle size={14} />
+                      </button>
+                    )}
                     {(seg.status === 'processing' || isSegProcessing) && (
                          <span className="text-xs bg-gray-100 text-gray-500 px-2 py-1 rounded font-bold">
                            {timer}s
@@ -200,6 +456,29 @@ export const ChapterList: React.FC<ChapterListProps> = ({
                            Title
                         </span>
                     )}
+                    {isEditing && !seg.isChapterHeader && (
+                      <div className="flex flex-wrap justify-end gap-1 max-w-[80px]">
+                        <button onClick={() => handleSplitSegment(seg.id)} className="p-1 text-gray-400 hover:text-primary" title={t('splitAtCursor')}>
+                          <Scissors size={14} />
+                        </button>
+                        {nextSeg && !nextSeg.isChapterHeader && (
+                          <button onClick={() => handleMergeSegment(seg.id)} className="p-1 text-gray-400 hover:text-primary" title={t('mergeWithNext')}>
+                            <Combine size={14} />
+                          </button>
+                        )}
+                        <button onClick={() => handleSplitChapter(seg.id, seg.text)} className="p-1 text-gray-400 hover:text-primary" title={t('splitChapterHere')}>
+                          <SplitSquareVertical size={14} />
+                        </button>
+                        <button onClick={() => handleDeleteSegment(seg.id)} className="p-1 text-gray-400 hover:text-red-500" title={t('deleteSegment')}>
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                    )}
+                    {isEditing && (
+                      <button onClick={() => handleInsertSegment(seg.id)} className="p-1 text-gray-400 hover:text-primary" title={t('insertSegment')}>
+                        <ListPlus size={14} />
+                      </button>
+                    )}
                   </div>
                 </div>
               </div>
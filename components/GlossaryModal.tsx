@@ -0,0 +1,179 @@
+import React, { useState, useEffect } from 'react';
+import { GlossaryEntry } from '../types';
+import { mergeGlossary } from '../utils/glossary';
+import { BookMarked, X, Plus, Trash2, Sparkles, Loader2, Search, CheckCircle } from 'lucide-react';
+
+interface GlossaryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  glossary: GlossaryEntry[];
+  onSave: (entries: GlossaryEntry[]) => void;
+  onExtract: () => Promise<GlossaryEntry[]>; // AI pass over the first chapters; nothing is saved until Save
+  t: (key: any, params?: any) => string;
+}
+
+export const GlossaryModal: React.FC<GlossaryModalProps> = ({ isOpen, onClose, glossary, onSave, onExtract, t }) => {
+  const [entries, setEntries] = useState<GlossaryEntry[]>(glossary);
+  const [filter, setFilter] = useState('');
+  const [isExtracting, setIsExtracting] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setEntries(glossary);
+      setFilter('');
+    }
+  }, [isOpen, glossary]);
+
+  if (!isOpen) return null;
+
+  const updateEntry = (id: string, changes: Partial<GlossaryEntry>) => {
+    setEntries(prev => prev.map(e => e.id === id ? { ...e, ...changes } : e));
+  };
+
+  const handleAdd = () => {
+    setFilter('');
+    setEntries(prev => [{ id: `gl-${Date.now()}`, source: '', target: '', isProperNoun: true }, ...prev]);
+  };
+
+  const handleExtract = async () => {
+    setIsExtracting(true);
+    try {
+      const extracted = await onExtract();
+      const merged = mergeGlossary(entries, extracted);
+      alert(t('glossaryExtracted', { count: merged.length - entries.length }));
+      setEntries(merged);
+    } catch (e) {
+      alert(t('glossaryExtractFailed') + ": " + (e as Error).message);
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  const handleSave = () => {
+    onSave(entries.filter(e => e.source.trim() && e.target.trim()));
+    onClose();
+  };
+
+  const query = filter.trim().toLowerCase();
+  const visible = query
+    ? entries.filter(e => e.source.toLowerCase().includes(query) || e.target.toLowerCase().includes(query))
+    : entries;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[999] flex justify-center items-center print:hidden">
+      <div className="bg-white rounded-xl shadow-2xl w-[760px] max-w-[95vw] max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-6 border-b">
+          <div>
+            <h3 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+              <BookMarked size={24} /> {t('glossary')}
+            </h3>
+            <p className="text-xs text-gray-400 mt-1">{t('glossaryHint')}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex gap-2 items-center px-6 pt-4">
+          <div className="flex-1 relative">
+            <Search size={14} className="absolute left-2 top-2.5 text-gray-400" />
+            <input
+              type="text"
+              className="w-full border rounded p-2 pl-7 text-sm"
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder={t('glossarySearch')}
+            />
+          </div>
+          <button
+            onClick={handleAdd}
+            className="text-xs px-3 py-2 bg-gray-50 text-gray-700 rounded border border-gray-200 hover:bg-gray-100 font-bold flex items-center gap-1"
+          >
+            <Plus size={14} /> {t('glossaryAdd')}
+          </button>
+          <button
+            onClick={handleExtract}
+            disabled={isExtracting}
+            className="text-xs px-3 py-2 bg-purple-50 text-purple-700 rounded border border-purple-200 hover:bg-purple-100 disabled:opacity-50 font-bold flex items-center gap-1"
+          >
+            {isExtracting ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />}
+            {isExtracting ? t('glossaryExtracting') : t('glossaryExtract')}
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {entries.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center py-8">{t('glossaryEmpty')}</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500 border-b">
+                  <th className="text-left font-bold py-2 pr-2">{t('glossarySource')}</th>
+                  <th className="text-left font-bold py-2 pr-2">{t('glossaryTarget')}</th>
+                  <th className="font-bold py-2 px-2 whitespace-nowrap">{t('glossaryProperNoun')}</th>
+                  <th className="w-8"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map(entry => (
+                  <tr key={entry.id} className="border-b border-gray-100">
+                    <td className="py-1 pr-2">
+                      <input
+                        type="text"
+                        className="w-full border rounded p-1.5 text-sm"
+                        value={entry.source}
+                        onChange={(e) => updateEntry(entry.id, { source: e.target.value })}
+                      />
+                    </td>
+                    <td className="py-1 pr-2">
+                      <input
+                        type="text"
+                        className="w-full border rounded p-1.5 text-sm"
+                        value={entry.target}
+                        onChange={(e) => updateEntry(entry.id, { target: e.target.value })}
+                      />
+                    </td>
+                    <td className="py-1 px-2 text-center">
+                      <input
+                        type="checkbox"
+                        checked={entry.isProperNoun}
+                        onChange={(e) => updateEntry(entry.id, { isProperNoun: e.target.checked })}
+                        className="w-4 h-4 cursor-pointer"
+                      />
+                    </td>
+                    <td className="py-1 text-right">
+                      <button
+                        onClick={() => setEntries(prev => prev.filter(e => e.id !== entry.id))}
+                        className="text-gray-400 hover:text-red-600 p-1"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="p-6 border-t flex justify-between items-center gap-3">
+          <span className="text-xs text-gray-400">{t('glossaryCount', { count: entries.length })}</span>
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-600 font-bold hover:bg-gray-100 rounded transition-colors"
+            >
+              {t('cancel')}
+            </button>
+            <button
+              onClick={handleSave}
+              className="bg-primary text-white px-6 py-2 rounded font-bold hover:bg-blue-900 transition-colors flex items-center gap-2"
+            >
+              <CheckCircle size={16} /> {t('saveChanges')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
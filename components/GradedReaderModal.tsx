@@ -0,0 +1,104 @@
+import React, { useState, useEffect } from 'react';
+import { GradedReaderOptions } from '../types';
+import { GraduationCap, X } from 'lucide-react';
+
+interface GradedReaderModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  options: GradedReaderOptions;
+  onSave: (options: GradedReaderOptions) => void;
+  t: (key: any, params?: any) => string;
+}
+
+export const GradedReaderModal: React.FC<GradedReaderModalProps> = ({ isOpen, onClose, options, onSave, t }) => {
+  const [formData, setFormData] = useState<GradedReaderOptions>(options);
+
+  useEffect(() => {
+    if (isOpen) setFormData(options);
+  }, [isOpen, options]);
+
+  if (!isOpen) return null;
+
+  const handleChange = (key: keyof GradedReaderOptions, value: any) => {
+    setFormData(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleSave = () => {
+    onSave(formData);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[999] flex justify-center items-center print:hidden">
+      <div className="bg-white rounded-xl shadow-2xl w-[440px] max-h-[90vh] overflow-y-auto p-6">
+        <div className="flex justify-between items-center mb-6 border-b pb-4">
+          <h3 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+            <GraduationCap size={24} /> {t('gradedReader')}
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+
+        <p className="text-xs text-gray-500 mb-4">{t('gradedReaderHint')}</p>
+
+        <label className="flex items-center gap-2 text-sm font-bold text-gray-700 cursor-pointer mb-4">
+          <input
+            type="checkbox"
+            checked={formData.enabled}
+            onChange={(e) => handleChange('enabled', e.target.checked)}
+            className="w-4 h-4 cursor-pointer"
+          />
+          {t('gradedEnable')}
+        </label>
+
+        <fieldset disabled={!formData.enabled} className="space-y-3 disabled:opacity-50">
+          <div>
+            <label className="block text-xs font-bold text-gray-600 mb-1">{t('gradedTargetLevel')}</label>
+            <select
+              className="w-full border rounded p-2 text-sm"
+              value={formData.targetLevel}
+              onChange={(e) => handleChange('targetLevel', parseInt(e.target.value))}
+            >
+              {[3, 4, 5, 6].map(level => (
+                <option key={level} value={level}>{t('gradedLevelOption', { level })}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-gray-600 mb-1">{t('gradedMaxRatio')}</label>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              className="w-full border rounded p-2 text-sm"
+              value={Math.round(formData.maxOutOfLevelRatio * 100)}
+              onChange={(e) => handleChange('maxOutOfLevelRatio', Math.min(100, Math.max(0, parseInt(e.target.value) || 0)) / 100)}
+            />
+            <p className="text-[10px] text-gray-400 mt-1">{t('gradedMaxRatioHint')}</p>
+          </div>
+
+          <label className="flex items-center gap-2 text-xs font-bold text-gray-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={formData.autoRewrite}
+              onChange={(e) => handleChange('autoRewrite', e.target.checked)}
+              className="w-4 h-4 cursor-pointer"
+            />
+            {t('gradedAutoRewrite')}
+          </label>
+        </fieldset>
+
+        <div className="mt-8 flex gap-3">
+          <button
+            onClick={handleSave}
+            className="flex-1 bg-primary text-white py-2.5 rounded font-bold hover:bg-blue-900 transition-colors"
+          >
+            {t('saveChanges')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,427 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { BuiltinCleaningRule, Chapter, ChapterRule, CleaningOptions, CleaningReport, CleaningRule, ImportPart, PendingImport, ProjectConfig, SegmentationOptions, SourceLanguage, TextEncodingName } from '../types';
+import { parseNovelParts, compileChapterRules, detectSourceLanguage } from '../utils/textProcessing';
+import { SUPPORTED_ENCODINGS, ENCODING_LABELS, decodeText } from '../utils/encoding';
+import { cleanNovelText } from '../utils/textCleaning';
+import { X, ListTree, Plus, Trash2, CheckCircle, AlertTriangle, Scissors, Languages, Eraser, Globe } from 'lucide-react';
+
+interface ImportPreviewModalProps {
+  pendingImport: PendingImport | null;
+  config: ProjectConfig;
+  onConfirm: (chapters: Chapter[], config: ProjectConfig) => void;
+  onCancel: () => void;
+  t: (key: any, params?: any) => string;
+}
+
+// Limit rendered preview rows; huge novels can have thousands of chapters
+const PREVIEW_LIMIT = 300;
+const TEXT_PREVIEW_LINES = 12;
+const REPORT_LIMIT = 200;
+
+const BUILTIN_CLEANING_RULES: { id: BuiltinCleaningRule, labelKey: string }[] = [
+  { id: 'zeroWidth', labelKey: 'cleanZeroWidth' },
+  { id: 'whitespaceRuns', labelKey: 'cleanWhitespaceRuns' },
+  { id: 'urlLines', labelKey: 'cleanUrlLines' },
+  { id: 'adPhrases', labelKey: 'cleanAdPhrases' },
+  { id: 'unfinishedFooters', labelKey: 'cleanUnfinishedFooters' },
+  { id: 'duplicateHeadings', labelKey: 'cleanDuplicateHeadings' }
+];
+
+export const ImportPreviewModal: React.FC<ImportPreviewModalProps> = ({ pendingImport, config, onConfirm, onCancel, t }) => {
+  const [rules, setRules] = useState<ChapterRule[]>(config.chapterRules);
+  const [segmentation, setSegmentation] = useState<SegmentationOptions>(config.segmentation);
+  const [cleaning, setCleaning] = useState<CleaningOptions>(config.cleaning);
+  const [encoding, setEncoding] = useState<TextEncodingName | undefined>(pendingImport?.encoding);
+  const [sourceLanguage, setSourceLanguage] = useState<SourceLanguage>(config.sourceLanguage);
+  const detectedLanguage = useMemo(() => pendingImport ? detectSourceLanguage(pendingImport.text) : 'zh', [pendingImport]);
+
+  // Start from the project's saved settings each time a new file is staged
+  useEffect(() => {
+    if (pendingImport) {
+      setRules(config.chapterRules);
+      setSegmentation(config.segmentation);
+      setCleaning(config.cleaning);
+      setEncoding(pendingImport.encoding);
+      setSourceLanguage(detectedLanguage);
+    }
+  }, [pendingImport, config, detectedLanguage]);
+
+  const { errors } = useMemo(() => compileChapterRules(rules), [rules]);
+
+  // Re-decode the raw bytes when the user overrides the detected encoding
+  const text = useMemo(() => {
+    if (!pendingImport) return '';
+    if (!pendingImport.buffer || !encoding || encoding === pendingImport.encoding) return pendingImport.text;
+    return decodeText(pendingImport.buffer, encoding);
+  }, [pendingImport, encoding]);
+
+  const firstLines = useMemo(
+    () => text.split(/\r?\n/).filter(l => l.trim()).slice(0, TEXT_PREVIEW_LINES),
+    [text]
+  );
+
+  // Multi-file imports are cleaned file by file; report line numbers refer to the joined text
+  const cleaned = useMemo(() => {
+    const parts: ImportPart[] = pendingImport?.parts || [{ name: '', text }];
+    const report: CleaningReport = { removedLines: [], removedChars: {} };
+    let lineOffset = 0;
+    const cleanedParts = parts.map(part => {
+      const result = cleanNovelText(part.text, cleaning, rules);
+      result.report.removedLines.forEach(item => report.removedLines.push({ ...item, line: item.line + lineOffset }));
+      Object.entries(result.report.removedChars).forEach(([rule, n]) => {
+        report.removedChars[rule] = (report.removedChars[rule] || 0) + n;
+      });
+      lineOffset += part.text.split(/\r?\n/).length;
+      return { name: part.name, text: result.text };
+    });
+    return { parts: cleanedParts, report };
+  }, [pendingImport, text, cleaning, rules]);
+
+  // With fixed chapters no line is a heading, so each part stays one chapter titled with its name
+  const previewChapters = useMemo(
+    () => pendingImport ? parseNovelParts(cleaned.parts, pendingImport.fixedChapters ? [] : rules, segmentation) : [],
+    [pendingImport, cleaned, rules, segmentation]
+  );
+
+  const cleaningErrors = useMemo(() => {
+    const errors: Record<string, string> = {};
+    cleaning.customRules.forEach(rule => {
+      try {
+        if (rule.pattern) new RegExp(rule.pattern);
+      } catch (e) {
+        errors[rule.id] = (e as Error).message;
+      }
+    });
+    return errors;
+  }, [cleaning]);
+
+  if (!pendingImport) return null;
+
+  const updateRule = (id: string, updates: Partial<ChapterRule>) => {
+    setRules(prev => prev.map(r => r.id === id ? { ...r, ...updates } : r));
+  };
+
+  const addCustomRule = () => {
+    setRules(prev => [...prev, { id: `custom-${Date.now()}`, name: t('customRule'), pattern: '', enabled: true, isCustom: true }]);
+  };
+
+  const removeRule = (id: string) => {
+    setRules(prev => prev.filter(r => r.id !== id));
+  };
+
+  const toggleBuiltinCleaning = (id: BuiltinCleaningRule, enabled: boolean) => {
+    setCleaning(prev => ({ ...prev, builtin: { ...prev.builtin, [id]: enabled } }));
+  };
+
+  const updateCleaningRule = (id: string, updates: Partial<CleaningRule>) => {
+    setCleaning(prev => ({ ...prev, customRules: prev.customRules.map(r => r.id === id ? { ...r, ...updates } : r) }));
+  };
+
+  const addCleaningRule = () => {
+    setCleaning(prev => ({
+      ...prev,
+      customRules: [...prev.customRules, { id: `clean-${Date.now()}`, name: t('customRule'), pattern: '', enabled: true }]
+    }));
+  };
+
+  const removeCleaningRule = (id: string) => {
+    setCleaning(prev => ({ ...prev, customRules: prev.customRules.filter(r => r.id !== id) }));
+  };
+
+  // Built-in rule ids are shown with their translated label, custom rules by name
+  const ruleLabel = (rule: string) => {
+    const builtin = BUILTIN_CLEANING_RULES.find(r => r.id === rule);
+    return builtin ? t(builtin.labelKey) : rule;
+  };
+
+  const handleConfirm = () => {
+    onConfirm(previewChapters, { ...config, sourceLanguage, chapterRules: rules, segmentation, cleaning });
+  };
+
+  const bodyCount = (chap: Chapter) => chap.segments.filter(s => !s.isChapterHeader).length;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[999] flex justify-center items-center print:hidden">
+      <div className="bg-white rounded-xl shadow-2xl w-[960px] max-w-[95vw] max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-6 border-b">
+          <div>
+            <h3 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+              <ListTree size={24} /> {t('importPreviewTitle')}
+            </h3>
+            <p className="text-xs text-gray-400 mt-1">
+              {pendingImport.fileName}
+              {pendingImport.parts && !pendingImport.fixedChapters && ` · ${t('filesSelected', { count: pendingImport.parts.length })}`}
+            </p>
+          </div>
+          <button onClick={onCancel} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-hidden grid grid-cols-1 md:grid-cols-2 gap-6 p-6">
+          {/* Rule Editor */}
+          <div className="overflow-y-auto pr-2">
+            {/* Encoding Override (file imports only) */}
+            {pendingImport.buffer && (
+              <>
+                <h4 className="font-bold text-sm text-gray-500 mb-2 border-b pb-1 flex items-center gap-1"><Languages size={14}/> {t('encoding')}</h4>
+                <div className="mb-6">
+                  <select
+                    className="w-full border rounded p-2 text-sm"
+                    value={encoding}
+                    onChange={(e) => setEncoding(e.target.value as TextEncodingName)}
+                  >
+                    {SUPPORTED_ENCODINGS.map(enc => (
+                      <option key={enc} value={enc}>
+                        {ENCODING_LABELS[enc]}{enc === pendingImport.encoding ? ` (${t('autoDetected')})` : ''}
+                      </option>
+                    ))}
+                  </select>
+                  {pendingImport.encodingMethod === 'heuristic' && (
+                    <p className="text-[10px] text-orange-600 mt-1 flex items-center gap-1">
+                      <AlertTriangle size={10} /> {t('encodingGuessHint')}
+                    </p>
+                  )}
+                </div>
+              </>
+            )}
+
+            {/* Source Language */}
+            <h4 className="font-bold text-sm text-gray-500 mb-2 border-b pb-1 flex items-center gap-1"><Globe size={14}/> {t('sourceLanguage')}</h4>
+            <div className="mb-6">
+              <select
+                className="w-full border rounded p-2 text-sm"
+                value={sourceLanguage}
+                onChange={(e) => setSourceLanguage(e.target.value as SourceLanguage)}
+              >
+                {(['zh', 'en'] as SourceLanguage[]).map(lang => (
+                  <option key={lang} value={lang}>
+                    {t(lang === 'zh' ? 'sourceChinese' : 'sourceEnglish')}{lang === detectedLanguage ? ` (${t('autoDetected')})` : ''}
+                  </option>
+                ))}
+              </select>
+              {sourceLanguage === 'en' && (
+                <p className="text-[10px] text-gray-500 mt-1">{t('englishSourceHint')}</p>
+              )}
+            </div>
+
+            {/* Segmentation Mode */}
+            <h4 className="font-bold text-sm text-gray-500 mb-2 border-b pb-1 flex items-center gap-1"><Scissors size={14}/> {t('segmentationMode')}</h4>
+            <div className="mb-6 flex flex-col gap-2">
+              <select
+                className="w-full border rounded p-2 text-sm"
+                value={segmentation.mode}
+                onChange={(e) => setSegmentation(prev => ({ ...prev, mode: e.target.value as SegmentationOptions['mode'] }))}
+              >
+                <option value="strict">{t('segmentStrict')}</option>
+                <option value="sentence">{t('segmentSentence')}</option>
+              </select>
+              {segmentation.mode === 'sentence' && (
+                <label className="flex items-center gap-2 text-xs font-bold text-gray-600">
+                  {t('maxSegmentLength')}
+                  <input
+                    type="number"
+                    min={20}
+                    step={10}
+                    className="w-24 border rounded px-2 py-1 text-sm"
+                    value={segmentation.maxLength}
+                    onChange={(e) => setSegmentation(prev => ({ ...prev, maxLength: Math.max(20, parseInt(e.target.value) || 0) }))}
+                  />
+                </label>
+              )}
+            </div>
+
+            {pendingImport.fixedChapters ? (
+              <>
+                <h4 className="font-bold text-sm text-gray-500 mb-2 border-b pb-1">{t('chapterRules')}</h4>
+                <p className="text-xs text-gray-500">{t('epubChaptersHint')}</p>
+              </>
+            ) : (
+              <>
+                <div className="flex justify-between items-center mb-2 border-b pb-1">
+                  <h4 className="font-bold text-sm text-gray-500">{t('chapterRules')}</h4>
+                  <button
+                    onClick={addCustomRule}
+                    className="text-xs text-blue-600 hover:text-blue-800 flex items-center gap-1"
+                  >
+                    <Plus size={12} /> {t('addCustomRule')}
+                  </button>
+                </div>
+    
+                <div className="flex flex-col gap-2">
+                  {rules.map(rule => (
+                    <div key={rule.id} className={`p-3 rounded-lg border ${rule.enabled ? 'border-blue-200 bg-blue-50/50' : 'border-gray-200 bg-gray-50'}`}>
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={rule.enabled}
+                          onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                          className="w-4 h-4 cursor-pointer"
+                        />
+                        {rule.isCustom ? (
+                          <input
+                            type="text"
+                            className="flex-1 border rounded px-2 py-1 text-xs font-bold"
+                            value={rule.name}
+                            onChange={(e) => updateRule(rule.id, { name: e.target.value })}
+                          />
+                        ) : (
+                          <span className="flex-1 text-xs font-bold text-gray-700">{rule.name}</span>
+                        )}
+                        {rule.isCustom && (
+                          <button onClick={() => removeRule(rule.id)} className="text-gray-400 hover:text-red-500">
+                            <Trash2 size={14} />
+                          </button>
+                        )}
+                      </div>
+                      {rule.isCustom ? (
+                        <input
+                          type="text"
+                          className={`w-full mt-2 border rounded px-2 py-1 text-xs font-mono ${errors[rule.id] ? 'border-red-400 bg-red-50' : ''}`}
+                          value={rule.pattern}
+                          onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+                          placeholder="^第\d+章"
+                        />
+                      ) : (
+                        <code className="block mt-2 text-[10px] text-gray-400 break-all">{rule.pattern}</code>
+                      )}
+                      {errors[rule.id] && (
+                        <p className="text-[10px] text-red-500 mt-1 flex items-center gap-1">
+                          <AlertTriangle size={10} /> {t('invalidRegex')}: {errors[rule.id]}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+
+            {/* Noise Cleaning */}
+            <div className="flex justify-between items-center mt-6 mb-2 border-b pb-1">
+              <h4 className="font-bold text-sm text-gray-500 flex items-center gap-1"><Eraser size={14}/> {t('cleaningRules')}</h4>
+              <button
+                onClick={addCleaningRule}
+                className="text-xs text-blue-600 hover:text-blue-800 flex items-center gap-1"
+              >
+                <Plus size={12} /> {t('addCustomRule')}
+              </button>
+            </div>
+            <div className="flex flex-col gap-1 mb-2">
+              {BUILTIN_CLEANING_RULES.map(rule => (
+                <label key={rule.id} className="flex items-center gap-2 text-xs text-gray-700 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={cleaning.builtin[rule.id]}
+                    onChange={(e) => toggleBuiltinCleaning(rule.id, e.target.checked)}
+                    className="w-4 h-4 cursor-pointer"
+                  />
+                  {t(rule.labelKey)}
+                </label>
+              ))}
+            </div>
+            <div className="flex flex-col gap-2">
+              {cleaning.customRules.map(rule => (
+                <div key={rule.id} className={`p-3 rounded-lg border ${rule.enabled ? 'border-blue-200 bg-blue-50/50' : 'border-gray-200 bg-gray-50'}`}>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={(e) => updateCleaningRule(rule.id, { enabled: e.target.checked })}
+                      className="w-4 h-4 cursor-pointer"
+                    />
+                    <input
+                      type="text"
+                      className="flex-1 border rounded px-2 py-1 text-xs font-bold"
+                      value={rule.name}
+                      onChange={(e) => updateCleaningRule(rule.id, { name: e.target.value })}
+                    />
+                    <button onClick={() => removeCleaningRule(rule.id)} className="text-gray-400 hover:text-red-500">
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                  <input
+                    type="text"
+                    className={`w-full mt-2 border rounded px-2 py-1 text-xs font-mono ${cleaningErrors[rule.id] ? 'border-red-400 bg-red-50' : ''}`}
+                    value={rule.pattern}
+                    onChange={(e) => updateCleaningRule(rule.id, { pattern: e.target.value })}
+                    placeholder="^.*本站.*$"
+                  />
+                  {cleaningErrors[rule.id] && (
+                    <p className="text-[10px] text-red-500 mt-1 flex items-center gap-1">
+                      <AlertTriangle size={10} /> {t('invalidRegex')}: {cleaningErrors[rule.id]}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Live Preview */}
+          <div className="flex flex-col gap-4 overflow-hidden">
+            <div className="border rounded-lg bg-gray-50 p-3 h-40 overflow-y-auto flex-shrink-0">
+              {firstLines.map((line, idx) => (
+                <p key={idx} className="text-xs font-cn text-gray-600 truncate">{line}</p>
+              ))}
+            </div>
+            {/* Cleaning Report */}
+            <div className="border rounded-lg max-h-40 overflow-y-auto flex-shrink-0">
+              <div className="sticky top-0 bg-gray-50 border-b px-3 py-2 text-xs font-bold text-gray-500 flex flex-wrap gap-x-3">
+                <span>{t('cleaningReport', { count: cleaned.report.removedLines.length })}</span>
+                {Object.entries(cleaned.report.removedChars).map(([rule, n]) => (
+                  <span key={rule} className="font-normal">{ruleLabel(rule)}: {t('charsRemoved', { count: n })}</span>
+                ))}
+              </div>
+              {cleaned.report.removedLines.slice(0, REPORT_LIMIT).map(item => (
+                <div key={item.line} className="flex gap-2 px-3 py-1 border-b border-gray-100 text-xs">
+                  <span className="text-gray-300 font-mono w-10 text-right flex-shrink-0">{item.line}</span>
+                  <span className="text-red-400 line-through font-cn truncate flex-1">{item.text}</span>
+                  <span className="text-gray-400 whitespace-nowrap">{ruleLabel(item.rule)}</span>
+                </div>
+              ))}
+              {cleaned.report.removedLines.length > REPORT_LIMIT && (
+                <div className="px-3 py-2 text-xs text-gray-400 text-center">
+                  +{cleaned.report.removedLines.length - REPORT_LIMIT}
+                </div>
+              )}
+            </div>
+
+            <div className="overflow-y-auto border rounded-lg flex-1">
+              <div className="sticky top-0 bg-gray-50 border-b px-3 py-2 text-xs font-bold text-gray-500">
+                {t('detectedChapters', { count: previewChapters.length })}
+              </div>
+              {previewChapters.slice(0, PREVIEW_LIMIT).map((chap, idx) => (
+                <div key={idx} className="flex justify-between items-center px-3 py-1.5 border-b border-gray-100 text-sm">
+                  <span className="font-cn text-gray-700 truncate">{chap.title}</span>
+                  <span className={`text-xs whitespace-nowrap ml-2 ${bodyCount(chap) === 0 ? 'text-red-400' : 'text-gray-400'}`}>
+                    {bodyCount(chap)} {t('segments')}
+                  </span>
+                </div>
+              ))}
+              {previewChapters.length > PREVIEW_LIMIT && (
+                <div className="px-3 py-2 text-xs text-gray-400 text-center">
+                  +{previewChapters.length - PREVIEW_LIMIT}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-6 border-t flex justify-end gap-3">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-gray-600 font-bold hover:bg-gray-100 rounded transition-colors"
+          >
+            {t('cancel')}
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={previewChapters.length === 0}
+            className="bg-primary text-white px-6 py-2 rounded font-bold hover:bg-blue-900 disabled:bg-gray-300 transition-colors flex items-center gap-2"
+          >
+            <CheckCircle size={16} /> {t('confirmImport')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
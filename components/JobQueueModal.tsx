@@ -0,0 +1,226 @@
+import React, { useState, useEffect } from 'react';
+import { JobQueue, QueueJob } from '../types';
+import { ListOrdered, X, Plus, Trash2, Play, Pause, RotateCcw } from 'lucide-react';
+
+interface JobQueueModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  queue: JobQueue; // This project's queue
+  chapterTitles: string[];
+  isRunning: boolean;
+  isBusy: boolean; // Another job is running; the queue can't start until it ends
+  onEnqueue: (kind: QueueJob['kind'], chapterIndices: number[]) => void;
+  onPause: () => void;
+  onResume: () => void;
+  onRetry: (jobId: string) => void;
+  onRemove: (jobId: string) => void;
+  onClearFinished: () => void;
+  onConcurrencyChange: (concurrency: number) => void;
+  t: (key: any, params?: any) => string;
+}
+
+const MAX_CONCURRENCY = 4;
+
+const STATUS_STYLES: Record<QueueJob['status'], string> = {
+  queued: 'bg-gray-100 text-gray-600',
+  done: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700'
+};
+
+export const JobQueueModal: React.FC<JobQueueModalProps> = ({
+  isOpen, onClose, queue, chapterTitles, isRunning, isBusy,
+  onEnqueue, onPause, onResume, onRetry, onRemove, onClearFinished, onConcurrencyChange, t
+}) => {
+  const [kind, setKind] = useState<QueueJob['kind']>('translate');
+  // 1-based, inclusive, as shown to the user
+  const [from, setFrom] = useState(1);
+  const [to, setTo] = useState(1);
+
+  useEffect(() => {
+    if (isOpen) {
+      setFrom(1);
+      setTo(chapterTitles.length);
+    }
+  }, [isOpen, chapterTitles.length]);
+
+  if (!isOpen) return null;
+
+  const clamp = (n: number) => Math.min(Math.max(1, n || 1), Math.max(1, chapterTitles.length));
+  const first = Math.min(clamp(from), clamp(to));
+  const last = Math.max(clamp(from), clamp(to));
+  const hasQueued = queue.jobs.some(job => job.status === 'queued');
+  const hasFinished = queue.jobs.some(job => job.status !== 'queued');
+
+  const handleAdd = () => {
+    onEnqueue(kind, Array.from({ length: last - first + 1 }, (_, i) => first - 1 + i));
+  };
+
+  const jobLabel = (job: QueueJob) => {
+    const start = Math.min(...job.chapterIndices) + 1;
+    const end = Math.max(...job.chapterIndices) + 1;
+    const range = start === end ? String(start) : `${start}–${end}`;
+    return t(job.kind === 'translate' ? 'queueJobTranslate' : 'queueJobNotes', { range });
+  };
+
+  const rangeTitle = (job: QueueJob) => job.chapterIndices.map(i => chapterTitles[i] || `#${i + 1}`).join('\n');
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[999] flex justify-center items-center print:hidden">
+      <div className="bg-white rounded-xl shadow-2xl w-[640px] max-w-[95vw] max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-6 border-b">
+          <div>
+            <h3 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+              <ListOrdered size={24} /> {t('jobQueue')}
+            </h3>
+            <p className="text-xs text-gray-400 mt-1">{t('jobQueueHint')}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* Add Job */}
+          <div>
+            <h4 className="font-bold text-sm text-gray-500 mb-2 border-b pb-1 flex items-center gap-1"><Plus size={14}/> {t('queueAddJob')}</h4>
+            <div className="flex items-end gap-2 flex-wrap">
+              <div>
+                <label className="block text-xs font-bold text-gray-600 mb-1">{t('queueJobKind')}</label>
+                <select
+                  className="border rounded p-1.5 text-sm"
+                  value={kind}
+                  onChange={(e) => setKind(e.target.value as QueueJob['kind'])}
+                >
+                  <option value="translate">{t('queueKindTranslate')}</option>
+                  <option value="notes">{t('queueKindNotes')}</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-600 mb-1">{t('queueFromChapter')}</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={chapterTitles.length}
+                  className="w-20 border rounded p-1.5 text-sm"
+                  value={from}
+                  onChange={(e) => setFrom(parseInt(e.target.value) || 1)}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-600 mb-1">{t('queueToChapter')}</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={chapterTitles.length}
+                  className="w-20 border rounded p-1.5 text-sm"
+                  value={to}
+                  onChange={(e) => setTo(parseInt(e.target.value) || 1)}
+                />
+              </div>
+              <button
+                onClick={() => { setFrom(1); setTo(chapterTitles.length); }}
+                className="text-xs px-3 py-2 text-gray-600 hover:text-primary font-bold"
+              >
+                {t('queueAllChapters')}
+              </button>
+              <button
+                onClick={handleAdd}
+                disabled={chapterTitles.length === 0}
+                className="bg-primary text-white px-4 py-1.5 rounded font-bold hover:bg-blue-900 transition-colors flex items-center gap-1 text-sm disabled:bg-gray-300 ml-auto"
+              >
+                <Plus size={14} /> {t('queueAdd')}
+              </button>
+            </div>
+            <p className="text-[10px] text-gray-400 mt-2 truncate">
+              {chapterTitles[first - 1]}{last > first ? ` → ${chapterTitles[last - 1]}` : ''}
+            </p>
+          </div>
+
+          {/* Jobs */}
+          <div>
+            <h4 className="font-bold text-sm text-gray-500 mb-2 border-b pb-1 flex items-center gap-1"><ListOrdered size={14}/> {t('queueJobs')}</h4>
+            {queue.jobs.length === 0 ? (
+              <p className="text-sm text-gray-400 text-center py-4">{t('queueEmpty')}</p>
+            ) : (
+              <div className="space-y-2">
+                {queue.jobs.map(job => {
+                  const done = job.completed.length;
+                  const total = job.chapterIndices.length;
+                  return (
+                    <div key={job.id} className="border border-gray-200 rounded p-3">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-bold text-gray-800 flex-1 truncate" title={rangeTitle(job)}>{jobLabel(job)}</span>
+                        <span className={`text-[10px] font-bold px-2 py-0.5 rounded ${STATUS_STYLES[job.status]}`}>
+                          {t(`queueStatus_${job.status}`)}
+                        </span>
+                        {job.status === 'failed' && (
+                          <button onClick={() => onRetry(job.id)} className="text-gray-400 hover:text-primary p-1" title={t('queueRetry')}>
+                            <RotateCcw size={14} />
+                          </button>
+                        )}
+                        <button onClick={() => onRemove(job.id)} className="text-gray-400 hover:text-red-600 p-1" title={t('queueRemove')}>
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                      <div className="mt-2 flex items-center gap-2">
+                        <div className="flex-1 h-1.5 bg-gray-100 rounded overflow-hidden">
+                          <div className="h-full bg-primary" style={{ width: `${total ? (done / total) * 100 : 0}%` }} />
+                        </div>
+                        <span className="text-[10px] text-gray-500 tabular-nums">{t('queueChaptersDone', { done, total })}</span>
+                      </div>
+                      {job.failed > 0 && <p className="text-[10px] text-amber-700 mt-1">{t('queueFailedSegments', { count: job.failed })}</p>}
+                      {job.error && <p className="text-[10px] text-red-600 mt-1 break-words">{job.error}</p>}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="p-6 border-t flex justify-between items-center gap-3">
+          <div className="flex items-center gap-4">
+            <label className="flex items-center gap-2 text-xs font-bold text-gray-600">
+              {t('queueConcurrency')}
+              <input
+                type="number"
+                min={1}
+                max={MAX_CONCURRENCY}
+                className="w-14 border rounded p-1 text-sm"
+                value={queue.concurrency}
+                onChange={(e) => onConcurrencyChange(Math.min(MAX_CONCURRENCY, Math.max(1, parseInt(e.target.value) || 1)))}
+              />
+            </label>
+            <button
+              onClick={onClearFinished}
+              disabled={!hasFinished}
+              className="text-xs text-gray-600 hover:text-primary font-bold disabled:text-gray-300"
+            >
+              {t('queueClearFinished')}
+            </button>
+          </div>
+          {isRunning ? (
+            <button
+              onClick={onPause}
+              disabled={queue.paused}
+              className="px-4 py-2 bg-amber-50 text-amber-700 border border-amber-200 rounded font-bold hover:bg-amber-100 transition-colors flex items-center gap-2 disabled:opacity-50"
+            >
+              <Pause size={16} /> {queue.paused ? t('queuePausing') : t('queuePause')}
+            </button>
+          ) : (
+            <div className="flex items-center gap-3">
+              {isBusy && hasQueued && !queue.paused && <span className="text-xs text-gray-500">{t('queueWaitingForJob')}</span>}
+              <button
+                onClick={onResume}
+                disabled={!hasQueued || isBusy}
+                className="bg-primary text-white px-6 py-2 rounded font-bold hover:bg-blue-900 transition-colors flex items-center gap-2 disabled:bg-gray-300"
+              >
+                <Play size={16} /> {queue.paused ? t('queueResume') : t('queueStart')}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+import React from 'react';
+import { ApiMode, ModelRef } from '../types';
+import { PROVIDERS, getProviderInfo } from '../services/providers/registry';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface ModelRefListProps {
+  models: ModelRef[];
+  onChange: (models: ModelRef[]) => void;
+  mainApiMode: ApiMode; // Rows on the main provider may leave key and URL empty
+  addLabel: string;
+  t: (key: any, params?: any) => string;
+}
+
+// Editable list of provider/model pairs (used inside the settings form)
+export const ModelRefList: React.FC<ModelRefListProps> = ({ models, onChange, mainApiMode, addLabel, t }) => {
+  const update = (index: number, changes: Partial<ModelRef>) => {
+    onChange(models.map((m, i) => i === index ? { ...m, ...changes } : m));
+  };
+
+  return (
+    <div className="space-y-2">
+      {models.map((ref, i) => {
+        const info = getProviderInfo(ref.apiMode);
+        const inherits = ref.apiMode === mainApiMode;
+        return (
+          <div key={i} className="border border-gray-200 rounded p-2 space-y-1.5">
+            <div className="flex gap-2">
+              <select
+                className="w-36 border rounded p-1.5 text-xs"
+                value={ref.apiMode}
+                onChange={(e) => update(i, { apiMode: e.target.value as ApiMode, baseUrl: '' })}
+              >
+                {(Object.keys(PROVIDERS) as ApiMode[]).map(mode => (
+                  <option key={mode} value={mode}>{PROVIDERS[mode].label}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                className="flex-1 border rounded p-1.5 text-xs"
+                value={ref.model}
+                onChange={(e) => update(i, { model: e.target.value })}
+                placeholder={info.modelPlaceholder}
+              />
+              <button onClick={() => onChange(models.filter((_, j) => j !== i))} className="text-gray-400 hover:text-red-600 p-1">
+                <Trash2 size={14} />
+              </button>
+            </div>
+            {(info.requiresApiKey || info.usesBaseUrl) && (
+              <div className="flex gap-2">
+                {info.requiresApiKey && (
+                  <input
+                    type="password"
+                    className="flex-1 border rounded p-1.5 text-xs"
+                    value={ref.apiKey}
+                    onChange={(e) => update(i, { apiKey: e.target.value })}
+                    placeholder={inherits ? t('sameAsMain') : t('apiKey')}
+                  />
+                )}
+                {info.usesBaseUrl && (
+                  <input
+                    type="text"
+                    className="flex-1 border rounded p-1.5 text-xs"
+                    value={ref.baseUrl}
+                    onChange={(e) => update(i, { baseUrl: e.target.value })}
+                    placeholder={inherits ? t('sameAsMain') : info.defaultBaseUrl}
+                  />
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+      <button
+        onClick={() => onChange([...models, { apiMode: mainApiMode, model: '', baseUrl: '', apiKey: '' }])}
+        className="text-xs px-3 py-1.5 bg-gray-50 text-gray-700 rounded border border-gray-200 hover:bg-gray-100 font-bold flex items-center gap-1"
+      >
+        <Plus size={14} /> {addLabel}
+      </button>
+    </div>
+  );
+};
@@ -1,14 +1,15 @@
 
 
 import React, { useRef } from 'react';
-import { BookOpen, UploadCloud, Trash2, FileJson } from 'lucide-react';
+import { BookOpen, UploadCloud, Trash2, FileJson, ClipboardPaste } from 'lucide-react';
 
 interface NovelImporterProps {
   isDisabled: boolean;
   hasNovel: boolean;
   fileName?: string;
-  onImport: (file: File) => void;
+  onImport: (files: File[]) => void;
   onImportProject: (file: File) => void;
+  onPasteText: () => void;
   onClear: () => void;
   t: (key: any, params?: any) => string;
 }
@@ -19,6 +20,7 @@ export const NovelImporter: React.FC<NovelImporterProps> = ({
   fileName, 
   onImport, 
   onImportProject,
+  onPasteText,
   onClear, 
   t 
 }) => {
@@ -32,7 +34,7 @@ export const NovelImporter: React.FC<NovelImporterProps> = ({
       if (file.name.endsWith('.json')) {
         onImportProject(file);
       } else {
-        onImport(file);
+        onImport(Array.from(e.dataTransfer.files));
       }
     }
   };
@@ -60,8 +62,12 @@ export const NovelImporter: React.FC<NovelImporterProps> = ({
         type="file" 
         ref={txtInputRef}
         className="hidden" 
-        accept=".txt"
-        onChange={(e) => e.target.files?.[0] && onImport(e.target.files[0])}
+        accept=".txt,.epub"
+        multiple
+        onChange={(e) => {
+          if (e.target.files?.length) onImport(Array.from(e.target.files));
+          e.target.value = '';
+        }}
       />
       <input 
         type="file" 
@@ -110,13 +116,23 @@ export const NovelImporter: React.FC<NovelImporterProps> = ({
                 <div className="h-px bg-gray-200 flex-1"></div>
               </div>
 
-              {/* JSON Backup Import */}
-              <button 
-                onClick={handleJsonClick}
-                className="text-sm px-4 py-2 bg-white border border-gray-200 text-gray-600 rounded-lg hover:bg-blue-50 hover:text-blue-600 hover:border-blue-200 flex items-center gap-2 transition-all shadow-sm font-medium"
-              >
-                <FileJson size={16} /> {t('restoreBackup')}
-              </button>
+              <div className="flex gap-3">
+                {/* Paste Text Import */}
+                <button 
+                  onClick={(e) => { e.stopPropagation(); onPasteText(); }}
+                  className="text-sm px-4 py-2 bg-white border border-gray-200 text-gray-600 rounded-lg hover:bg-blue-50 hover:text-blue-600 hover:border-blue-200 flex items-center gap-2 transition-all shadow-sm font-medium"
+                >
+                  <ClipboardPaste size={16} /> {t('pasteText')}
+                </button>
+
+                {/* JSON Backup Import */}
+                <button 
+                  onClick={handleJsonClick}
+                  className="text-sm px-4 py-2 bg-white border border-gray-200 text-gray-600 rounded-lg hover:bg-blue-50 hover:text-blue-600 hover:border-blue-200 flex items-center gap-2 transition-all shadow-sm font-medium"
+                >
+                  <FileJson size={16} /> {t('restoreBackup')}
+                </button>
+              </div>
             </>
           )}
         </>
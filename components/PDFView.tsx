@@ -255,7 +255,7 @@ export const PDFView = React.forwardRef<HTMLDivElement, PDFViewProps>(({ pdfItem
                     <div className="group relative text-center">
                       <button onClick={() => onRemoveItem(index)} className="absolute -right-8 top-0 text-red-400 opacity-0 group-hover:opacity-100 transition-opacity print:hidden p-2"><X size={20}/></button>
                       <h1 className="text-4xl font-bold text-slate-800 font-serif mb-3 tracking-wide">
-                        {formatChapterTitle(item.data.text)}
+                        {formatChapterTitle(item.data.text, item.data.volume)}
                       </h1>
                       <div className="flex items-center justify-center gap-4 mb-2">
                           <div className="h-px w-12 bg-gray-300"></div>
@@ -352,9 +352,11 @@ export const PDFView = React.forwardRef<HTMLDivElement, PDFViewProps>(({ pdfItem
                         >
                           {renderHighlightedText(item.data.en, item.data.vocab)}
                         </div>
-                        <div className="text-sm text-slate-500 font-cn my-6 pl-4 border-l-2 border-slate-200 leading-relaxed opacity-90 break-inside-avoid">
-                          {item.data.cn}
-                        </div>
+                        {item.data.cn && (
+                          <div className="text-sm text-slate-500 font-cn my-6 pl-4 border-l-2 border-slate-200 leading-relaxed opacity-90 break-inside-avoid">
+                            {item.data.cn}
+                          </div>
+                        )}
                     </div>
 
                     {/* Clearfix for visual debugging in browser, though pdf flow handles it naturally */}
@@ -0,0 +1,76 @@
+import React, { useState, useEffect } from 'react';
+import { X, ClipboardPaste } from 'lucide-react';
+
+interface PasteTextModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (name: string, text: string) => void;
+  t: (key: any, params?: any) => string;
+}
+
+export const PasteTextModal: React.FC<PasteTextModalProps> = ({ isOpen, onClose, onSubmit, t }) => {
+  const [name, setName] = useState('');
+  const [text, setText] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setName(t('pastedText'));
+      setText('');
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = () => {
+    if (!text.trim()) return;
+    onSubmit(name.trim() || t('pastedText'), text);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[999] flex justify-center items-center print:hidden">
+      <div className="bg-white rounded-xl shadow-2xl w-[720px] max-w-[95vw] max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-6 border-b">
+          <h3 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+            <ClipboardPaste size={24} /> {t('pasteTextTitle')}
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 flex flex-col gap-4 flex-1 overflow-hidden">
+          <div>
+            <label className="block text-sm font-bold text-gray-700 mb-1">{t('pasteTextName')}</label>
+            <input
+              type="text"
+              className="w-full border rounded p-2 text-sm"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <textarea
+            className="w-full flex-1 min-h-[300px] border rounded p-3 text-sm font-cn leading-relaxed focus:outline-none focus:ring-1 focus:ring-primary"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={t('pasteTextPlaceholder')}
+            autoFocus
+          />
+          <p className="text-xs text-gray-400">{t('pasteTextHint', { count: text.length })}</p>
+        </div>
+
+        <div className="p-6 border-t bg-gray-50 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-gray-600 font-bold hover:bg-gray-100 rounded">
+            {t('cancel')}
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={!text.trim()}
+            className="bg-primary text-white px-6 py-2 rounded font-bold hover:bg-blue-900 disabled:opacity-50"
+          >
+            {t('continue')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,216 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { AppSettings, PromptKind, PromptTemplate, Segment, VocabDB } from '../types';
+import { PROMPT_VARIABLES } from '../constants';
+import { AIService, PromptOptions } from '../services/aiService';
+import { defaultTemplateFor, notesPayloadItem, resolveTemplate, withBuiltinTemplates } from '../utils/promptTemplates';
+import { FileText, X, Plus, Trash2, RotateCcw, Eye, CheckCircle } from 'lucide-react';
+
+interface PromptTemplatesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: AppSettings;
+  activePrompts: Record<PromptKind, string>;
+  promptOptions: PromptOptions; // Variables shared by every prompt (target level, glossary)
+  previewSegments: Segment[];
+  previewFromSelection: boolean;
+  vocabDB: VocabDB;
+  onSave: (templates: PromptTemplate[], activePrompts: Record<PromptKind, string>) => void;
+  t: (key: any, params?: any) => string;
+}
+
+const KINDS: { kind: PromptKind, label: string }[] = [
+  { kind: 'translate', label: 'promptKindTranslate' },
+  { kind: 'vocabNotes', label: 'promptKindNotes' }
+];
+
+export const PromptTemplatesModal: React.FC<PromptTemplatesModalProps> = ({
+  isOpen, onClose, settings, activePrompts, promptOptions, previewSegments, previewFromSelection, vocabDB, onSave, t
+}) => {
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [active, setActive] = useState<Record<PromptKind, string>>(activePrompts);
+  const [kind, setKind] = useState<PromptKind>('translate');
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setTemplates(withBuiltinTemplates(settings.promptTemplates));
+      setActive(activePrompts);
+    }
+  }, [isOpen, settings, activePrompts]);
+
+  const current = resolveTemplate(templates, active[kind], kind);
+
+  // Dry run: render the unsaved template exactly as AIService would send it
+  const preview = useMemo(() => {
+    if (!isOpen) return '';
+    const service = new AIService(settings, { ...promptOptions, templates: { [kind]: current.body } });
+    if (kind === 'translate') {
+      return service.buildTranslatePrompt(previewSegments.map(s => s.text));
+    }
+    const payload = previewSegments.filter(s => s.enText).map(s => notesPayloadItem(s, vocabDB, promptOptions.glossary));
+    return service.buildNotesPrompt(payload);
+  }, [isOpen, settings, promptOptions, kind, current.body, previewSegments, vocabDB]);
+
+  if (!isOpen) return null;
+
+  const updateCurrent = (changes: Partial<PromptTemplate>) => {
+    setTemplates(prev => prev.map(tpl => tpl.id === current.id ? { ...tpl, ...changes } : tpl));
+  };
+
+  const handleNew = () => {
+    const name = prompt(t('newTemplateName'), `${current.name} (2)`);
+    if (!name) return;
+    const template: PromptTemplate = { id: `custom-${Date.now()}`, name, kind, body: current.body };
+    setTemplates(prev => [...prev, template]);
+    setActive(prev => ({ ...prev, [kind]: template.id }));
+  };
+
+  const handleDelete = () => {
+    if (current.isBuiltin || !confirm(t('confirmDeleteTemplate', { name: current.name }))) return;
+    setTemplates(prev => prev.filter(tpl => tpl.id !== current.id));
+    setActive(prev => ({ ...prev, [kind]: defaultTemplateFor(kind).id }));
+  };
+
+  const handleReset = () => {
+    if (!confirm(t('confirmResetTemplate'))) return;
+    updateCurrent({ body: defaultTemplateFor(kind).body });
+  };
+
+  const insertVariable = (name: string) => {
+    const el = bodyRef.current;
+    const token = `{${name}}`;
+    if (!el) return;
+    const body = current.body.slice(0, el.selectionStart) + token + current.body.slice(el.selectionEnd);
+    const caret = el.selectionStart + token.length;
+    updateCurrent({ body });
+    requestAnimationFrame(() => {
+      el.focus();
+      el.setSelectionRange(caret, caret);
+    });
+  };
+
+  const handleSave = () => {
+    onSave(templates, active);
+    onClose();
+  };
+
+  const kindTemplates = templates.filter(tpl => tpl.kind === kind);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[999] flex justify-center items-center print:hidden">
+      <div className="bg-white rounded-xl shadow-2xl w-[1080px] max-w-[95vw] max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-6 border-b">
+          <div>
+            <h3 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+              <FileText size={24} /> {t('promptTemplates')}
+            </h3>
+            <p className="text-xs text-gray-400 mt-1">{t('promptTemplatesHint')}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex gap-2 px-6 pt-4">
+          {KINDS.map(k => (
+            <button
+              key={k.kind}
+              onClick={() => setKind(k.kind)}
+              className={`text-xs px-3 py-1.5 rounded font-bold border ${kind === k.kind ? 'bg-blue-50 text-blue-700 border-blue-200' : 'bg-white text-gray-500 border-gray-200 hover:bg-gray-50'}`}
+            >
+              {t(k.label)}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-hidden grid grid-cols-1 md:grid-cols-2 gap-6 p-6">
+          {/* Template Editor */}
+          <div className="flex flex-col min-h-0">
+            <label className="block text-xs font-bold text-gray-600 mb-1">{t('activeTemplate')}</label>
+            <div className="flex gap-2 mb-3">
+              <select
+                className="flex-1 border rounded p-2 text-sm"
+                value={current.id}
+                onChange={(e) => setActive(prev => ({ ...prev, [kind]: e.target.value }))}
+              >
+                {kindTemplates.map(tpl => (
+                  <option key={tpl.id} value={tpl.id}>{tpl.name}</option>
+                ))}
+              </select>
+              <button onClick={handleNew} className="text-xs px-2 text-blue-600 hover:bg-blue-50 rounded border border-blue-200 flex items-center gap-1" title={t('newTemplate')}>
+                <Plus size={14} /> {t('newTemplate')}
+              </button>
+              <button
+                onClick={handleDelete}
+                disabled={current.isBuiltin}
+                className="text-xs px-2 text-red-600 hover:bg-red-50 rounded border border-red-200 disabled:text-gray-300 disabled:border-gray-200 disabled:hover:bg-white"
+                title={t('deleteTemplate')}
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+
+            <label className="block text-xs font-bold text-gray-600 mb-1">{t('templateName')}</label>
+            <input
+              type="text"
+              className="w-full border rounded p-2 text-sm mb-3"
+              value={current.name}
+              onChange={(e) => updateCurrent({ name: e.target.value })}
+            />
+
+            <div className="flex justify-between items-center mb-1">
+              <label className="block text-xs font-bold text-gray-600">{t('templateBody')}</label>
+              <button onClick={handleReset} className="text-xs text-gray-500 hover:text-gray-700 flex items-center gap-1">
+                <RotateCcw size={10} /> {t('resetToDefault')}
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-1 mb-2">
+              {PROMPT_VARIABLES.map(name => (
+                <button
+                  key={name}
+                  onClick={() => insertVariable(name)}
+                  className="text-[10px] font-mono px-1.5 py-0.5 bg-gray-100 text-gray-600 rounded hover:bg-gray-200"
+                  title={t('insertVariable')}
+                >
+                  {`{${name}}`}
+                </button>
+              ))}
+            </div>
+            <textarea
+              ref={bodyRef}
+              className="flex-1 min-h-[300px] w-full border rounded p-2 text-xs font-mono"
+              value={current.body}
+              onChange={(e) => updateCurrent({ body: e.target.value })}
+            />
+          </div>
+
+          {/* Dry-run Preview */}
+          <div className="flex flex-col min-h-0">
+            <h4 className="font-bold text-sm text-gray-500 mb-2 border-b pb-1 flex items-center gap-1">
+              <Eye size={14}/> {t('promptPreview')}
+            </h4>
+            <p className="text-[10px] text-gray-400 mb-2">
+              {previewFromSelection ? t('promptPreviewSelected', { count: previewSegments.length }) : t('promptPreviewSample', { count: previewSegments.length })}
+            </p>
+            <pre className="flex-1 overflow-auto bg-gray-50 border rounded p-3 text-xs whitespace-pre-wrap break-words">{preview}</pre>
+          </div>
+        </div>
+
+        <div className="p-6 border-t flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-600 font-bold hover:bg-gray-100 rounded transition-colors"
+          >
+            {t('cancel')}
+          </button>
+          <button
+            onClick={handleSave}
+            className="bg-primary text-white px-6 py-2 rounded font-bold hover:bg-blue-900 transition-colors flex items-center gap-2"
+          >
+            <CheckCircle size={16} /> {t('saveChanges')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,86 +1,84 @@
 import React, { useState, useEffect } from 'react';
-import { AppSettings } from '../types';
-import { Settings, X, Globe, Type, Cpu, RefreshCw, List } from 'lucide-react';
+import { ApiMode, AppSettings, UsageJob } from '../types';
+import { AIService } from '../services/aiService';
+import { CacheStats, cacheStats, purgeCache, purgeProjectCache } from '../services/responseCache';
+import { PROVIDERS, getProviderInfo } from '../services/providers/registry';
+import { ModelRefList } from './ModelRefList';
+import { Settings, X, Globe, Type, Cpu, RefreshCw, List, FileText, History, Database, Trash2, Shuffle, GitBranch } from 'lucide-react';
 
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
   settings: AppSettings;
   onSave: (newSettings: AppSettings) => void;
+  onOpenPromptTemplates: () => void;
+  projectName: string; // For the per-project cache purge ('' with no project loaded)
   t: (key: any, params?: any) => string;
 }
 
-export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings, onSave, t }) => {
+const formatMB = (bytes: number) => (bytes / 1024 / 1024).toFixed(1);
+
+const FALLBACK_JOBS: UsageJob[] = ['translate', 'vocabNotes', 'simplify', 'synopsis', 'reverseTranslate', 'glossary'];
+
+export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings, onSave, onOpenPromptTemplates, projectName, t }) => {
   const [formData, setFormData] = useState<AppSettings>(settings);
   const [availableModels, setAvailableModels] = useState<string[]>([]);
   const [isFetchingModels, setIsFetchingModels] = useState(false);
   const [useModelSelect, setUseModelSelect] = useState(false);
+  const [cacheInfo, setCacheInfo] = useState<{ all: CacheStats, project: CacheStats } | null>(null);
+  const [fallbackJob, setFallbackJob] = useState<UsageJob>('translate');
+
+  const refreshCacheInfo = async () => {
+    try {
+      const [all, project] = await Promise.all([cacheStats(), projectName ? cacheStats(projectName) : { entries: 0, bytes: 0 }]);
+      setCacheInfo({ all, project });
+    } catch (e) {
+      console.warn("Failed to read cache stats", e);
+      setCacheInfo(null);
+    }
+  };
 
   // Fix: Sync local state when modal opens or settings change externally
   useEffect(() => {
     if (isOpen) {
       setFormData(settings);
+      refreshCacheInfo();
     }
   }, [isOpen, settings]);
 
   if (!isOpen) return null;
 
+  const providerInfo = getProviderInfo(formData.apiMode);
+
   const handleChange = (key: keyof AppSettings, value: any) => {
     setFormData(prev => {
       const updates: any = { [key]: value };
       
-      // Auto-switch Base URL defaults to prevent user error
+      // Auto-switch Base URL defaults to prevent user error (a custom gateway URL is kept)
       if (key === 'apiMode') {
-        if (value === 'openai' && prev.baseUrl.includes('googleapis.com')) {
-          updates.baseUrl = 'https://api.openai.com';
-        } else if (value === 'gemini' && prev.baseUrl.includes('openai.com')) {
-          updates.baseUrl = 'https://generativelanguage.googleapis.com';
-        }
+        const isDefaultUrl = !prev.baseUrl || Object.values(PROVIDERS).some(p => p.defaultBaseUrl && prev.baseUrl.startsWith(p.defaultBaseUrl));
+        const nextUrl = getProviderInfo(value as ApiMode).defaultBaseUrl;
+        if (isDefaultUrl && nextUrl) updates.baseUrl = nextUrl;
+        setAvailableModels([]);
+        setUseModelSelect(false);
       }
       return { ...prev, ...updates };
     });
   };
 
   const handleFetchModels = async () => {
-    if (!formData.baseUrl || !formData.apiKey) {
-      alert("Please enter Base URL and API Key first.");
+    const provider = getProviderInfo(formData.apiMode);
+    if ((provider.usesBaseUrl && !formData.baseUrl) || (provider.requiresApiKey && !formData.apiKey)) {
+      alert(provider.requiresApiKey ? "Please enter Base URL and API Key first." : "Please enter the server URL first.");
       return;
     }
 
     setIsFetchingModels(true);
     try {
-      // Clean base url and append /v1/models
-      const baseUrl = formData.baseUrl.replace(/\/+$/, "");
-      const url = `${baseUrl}/v1/models`;
-      
-      const res = await fetch(url, {
-        headers: {
-          'Authorization': `Bearer ${formData.apiKey}`
-        }
-      });
-      
-      if (!res.ok) {
-        const errData = await res.json().catch(() => null);
-        let msg = res.statusText;
-        if (errData) {
-            // Enhanced error extraction
-            msg = errData.error?.message || errData.detail || errData.message || JSON.stringify(errData);
-        }
-        throw new Error(msg);
-      }
-      
-      const data = await res.json();
-      if (data.data && Array.isArray(data.data)) {
-        const models = data.data.map((m: any) => m.id).sort();
-        setAvailableModels(models);
-        setUseModelSelect(true);
-        if (models.length > 0 && !models.includes(formData.model)) {
-            // Optionally select the first one, or keep current if valid
-            // handleChange('model', models[0]); 
-        }
-      } else {
-        throw new Error("Invalid response format: data.data is missing");
-      }
+      // Listing uses the unsaved form values
+      const models = await new AIService(formData).listModels();
+      setAvailableModels(models);
+      setUseModelSelect(true);
     } catch (e) {
       alert(t('fetchError') + ": " + (e as Error).message);
     } finally {
@@ -88,6 +86,27 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, s
     }
   };
 
+  // Purges take effect at once, not on Save
+  const handlePurgeProjectCache = async () => {
+    if (!confirm(t('confirmPurgeProjectCache', { name: projectName }))) return;
+    try {
+      await purgeProjectCache(projectName);
+    } catch (e) {
+      alert((e as Error).message);
+    }
+    refreshCacheInfo();
+  };
+
+  const handlePurgeCache = async () => {
+    if (!confirm(t('confirmPurgeCache'))) return;
+    try {
+      await purgeCache();
+    } catch (e) {
+      alert((e as Error).message);
+    }
+    refreshCacheInfo();
+  };
+
   const handleSave = () => {
     onSave(formData);
     onClose();
@@ -133,12 +152,13 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, s
                 value={formData.apiMode}
                 onChange={(e) => handleChange('apiMode', e.target.value)}
               >
-                <option value="gemini">Google Gemini (Official SDK)</option>
-                <option value="openai">OpenAI / Compatible (OneAPI)</option>
+                {(Object.keys(PROVIDERS) as ApiMode[]).map(mode => (
+                  <option key={mode} value={mode}>{PROVIDERS[mode].label}</option>
+                ))}
               </select>
             </div>
             
-            {formData.apiMode === 'openai' && (
+            {providerInfo.usesBaseUrl && (
               <div className="mb-3">
                 <label className="block text-xs font-bold text-gray-600 mb-1">{t('baseUrl')}</label>
                 <input 
@@ -146,34 +166,34 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, s
                   className="w-full border rounded p-2 text-sm"
                   value={formData.baseUrl}
                   onChange={(e) => handleChange('baseUrl', e.target.value)}
-                  placeholder="https://api.openai.com"
+                  placeholder={providerInfo.defaultBaseUrl}
                 />
               </div>
             )}
 
-            <div className="mb-3">
-              <label className="block text-xs font-bold text-gray-600 mb-1">{t('apiKey')}</label>
-              <input 
-                type="password" 
-                className="w-full border rounded p-2 text-sm"
-                value={formData.apiKey}
-                onChange={(e) => handleChange('apiKey', e.target.value)}
-              />
-            </div>
+            {providerInfo.requiresApiKey && (
+              <div className="mb-3">
+                <label className="block text-xs font-bold text-gray-600 mb-1">{t('apiKey')}</label>
+                <input 
+                  type="password" 
+                  className="w-full border rounded p-2 text-sm"
+                  value={formData.apiKey}
+                  onChange={(e) => handleChange('apiKey', e.target.value)}
+                />
+              </div>
+            )}
 
             <div className="mb-3">
               <div className="flex justify-between items-center mb-1">
                 <label className="block text-xs font-bold text-gray-600">{t('modelName')}</label>
-                {formData.apiMode === 'openai' && (
-                   <button 
-                    onClick={handleFetchModels}
-                    disabled={isFetchingModels}
-                    className="text-xs text-blue-600 hover:text-blue-800 flex items-center gap-1"
-                   >
-                     {isFetchingModels ? <RefreshCw size={10} className="animate-spin"/> : <List size={10} />}
-                     {isFetchingModels ? t('fetching') : t('fetchModels')}
-                   </button>
-                )}
+                <button 
+                  onClick={handleFetchModels}
+                  disabled={isFetchingModels}
+                  className="text-xs text-blue-600 hover:text-blue-800 flex items-center gap-1"
+                >
+                  {isFetchingModels ? <RefreshCw size={10} className="animate-spin"/> : <List size={10} />}
+                  {isFetchingModels ? t('fetching') : t('fetchModels')}
+                </button>
               </div>
               
               {useModelSelect && availableModels.length > 0 ? (
@@ -201,10 +221,209 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, s
                   className="w-full border rounded p-2 text-sm"
                   value={formData.model}
                   onChange={(e) => handleChange('model', e.target.value)}
-                  placeholder={formData.apiMode === 'gemini' ? 'gemini-2.5-flash' : 'gpt-4o'}
+                  placeholder={providerInfo.modelPlaceholder}
                 />
               )}
             </div>
+
+            {formData.apiMode === 'anthropic' && (
+              <div className="mb-3">
+                <label className="block text-xs font-bold text-gray-600 mb-1">{t('maxOutputTokens')}</label>
+                <input 
+                  type="number" 
+                  min={256}
+                  step={256}
+                  className="w-full border rounded p-2 text-sm"
+                  value={formData.maxTokens}
+                  onChange={(e) => handleChange('maxTokens', Math.max(256, parseInt(e.target.value) || 0))}
+                />
+              </div>
+            )}
+
+            {formData.apiMode === 'ollama' && (
+              <div className="mb-3">
+                <label className="block text-xs font-bold text-gray-600 mb-1">{t('ollamaContextWindow')}</label>
+                <input 
+                  type="number" 
+                  min={2048}
+                  step={1024}
+                  className="w-full border rounded p-2 text-sm"
+                  value={formData.ollamaNumCtx}
+                  onChange={(e) => handleChange('ollamaNumCtx', Math.max(2048, parseInt(e.target.value) || 0))}
+                />
+                <p className="text-[10px] text-gray-400 mt-1">{t('ollamaHint')}</p>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3 mb-3">
+              <div>
+                <label className="block text-xs font-bold text-gray-600 mb-1">{t('maxAttempts')}</label>
+                <input 
+                  type="number" 
+                  min={1}
+                  max={10}
+                  className="w-full border rounded p-2 text-sm"
+                  value={formData.maxAttempts}
+                  onChange={(e) => handleChange('maxAttempts', Math.min(10, Math.max(1, parseInt(e.target.value) || 1)))}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-600 mb-1">{t('requestTimeout')}</label>
+                <input 
+                  type="number" 
+                  min={10}
+                  max={600}
+                  step={10}
+                  className="w-full border rounded p-2 text-sm"
+                  value={formData.requestTimeoutSec}
+                  onChange={(e) => handleChange('requestTimeoutSec', Math.min(600, Math.max(10, parseInt(e.target.value) || 0)))}
+                />
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-xs font-bold text-gray-600 cursor-pointer">
+              <input 
+                type="checkbox" 
+                checked={formData.streaming}
+                onChange={(e) => handleChange('streaming', e.target.checked)}
+                className="w-4 h-4 cursor-pointer"
+              />
+              {t('streamResponses')}
+            </label>
+          </div>
+
+          {/* Translation Context */}
+          <div>
+            <h4 className="font-bold text-sm text-gray-500 mb-2 border-b pb-1 flex items-center gap-1"><History size={14}/> {t('translationContext')}</h4>
+            <div className="mb-3">
+              <label className="block text-xs font-bold text-gray-600 mb-1">{t('contextPairs')}</label>
+              <input 
+                type="number" 
+                min={0}
+                max={20}
+                className="w-full border rounded p-2 text-sm"
+                value={formData.contextPairs}
+                onChange={(e) => handleChange('contextPairs', Math.min(20, Math.max(0, parseInt(e.target.value) || 0)))}
+              />
+              <p className="text-[10px] text-gray-400 mt-1">{t('contextPairsHint')}</p>
+            </div>
+            <label className="flex items-center gap-2 text-xs font-bold text-gray-600 cursor-pointer">
+              <input 
+                type="checkbox" 
+                checked={formData.useSynopsis}
+                onChange={(e) => handleChange('useSynopsis', e.target.checked)}
+                className="w-4 h-4 cursor-pointer"
+              />
+              {t('useSynopsis')}
+            </label>
+            <p className="text-[10px] text-gray-400 mt-1">{t('useSynopsisHint')}</p>
+          </div>
+
+          {/* Comparison Models */}
+          <div>
+            <h4 className="font-bold text-sm text-gray-500 mb-2 border-b pb-1 flex items-center gap-1"><Shuffle size={14}/> {t('compareModels')}</h4>
+            <p className="text-[10px] text-gray-400 mb-2">{t('compareModelsHint')}</p>
+            <ModelRefList
+              models={formData.compareModels}
+              onChange={(models) => handleChange('compareModels', models)}
+              mainApiMode={formData.apiMode}
+              addLabel={t('addCompareModel')}
+              t={t}
+            />
+          </div>
+
+          {/* Fallback Chains */}
+          <div>
+            <h4 className="font-bold text-sm text-gray-500 mb-2 border-b pb-1 flex items-center gap-1"><GitBranch size={14}/> {t('fallbackChains')}</h4>
+            <p className="text-[10px] text-gray-400 mb-2">{t('fallbackChainsHint')}</p>
+            <select 
+              className="w-full border rounded p-2 text-sm mb-2"
+              value={fallbackJob}
+              onChange={(e) => setFallbackJob(e.target.value as UsageJob)}
+            >
+              {FALLBACK_JOBS.map(job => (
+                <option key={job} value={job}>
+                  {t(`usageJob_${job}`)}{formData.fallbackChains[job]?.length ? ` (${formData.fallbackChains[job]!.length})` : ''}
+                </option>
+              ))}
+            </select>
+            <ModelRefList
+              models={formData.fallbackChains[fallbackJob] || []}
+              onChange={(models) => handleChange('fallbackChains', { ...formData.fallbackChains, [fallbackJob]: models })}
+              mainApiMode={formData.apiMode}
+              addLabel={t('addFallbackModel')}
+              t={t}
+            />
+          </div>
+
+          {/* Prompt Templates (edited in their own dialog) */}
+          <div>
+            <h4 className="font-bold text-sm text-gray-500 mb-2 border-b pb-1 flex items-center gap-1"><FileText size={14}/> {t('promptTemplates')}</h4>
+            <p className="text-[10px] text-gray-400 mb-2">{t('promptTemplatesHint')}</p>
+            <button 
+              onClick={onOpenPromptTemplates}
+              className="text-xs px-3 py-1.5 bg-gray-50 text-gray-700 rounded border border-gray-200 hover:bg-gray-100 font-bold flex items-center gap-1"
+            >
+              <FileText size={14} /> {t('editPromptTemplates')}
+            </button>
+          </div>
+
+          {/* Response Cache */}
+          <div>
+            <h4 className="font-bold text-sm text-gray-500 mb-2 border-b pb-1 flex items-center gap-1"><Database size={14}/> {t('responseCache')}</h4>
+            <p className="text-[10px] text-gray-400 mb-2">{t('responseCacheHint')}</p>
+            <label className="flex items-center gap-2 text-xs font-bold text-gray-600 cursor-pointer mb-2">
+              <input 
+                type="checkbox" 
+                checked={formData.cacheEnabled}
+                onChange={(e) => handleChange('cacheEnabled', e.target.checked)}
+                className="w-4 h-4 cursor-pointer"
+              />
+              {t('cacheEnabled')}
+            </label>
+            <label className="flex items-center gap-2 text-xs font-bold text-gray-600 cursor-pointer mb-3">
+              <input 
+                type="checkbox" 
+                checked={formData.cacheBypass}
+                disabled={!formData.cacheEnabled}
+                onChange={(e) => handleChange('cacheBypass', e.target.checked)}
+                className="w-4 h-4 cursor-pointer"
+              />
+              {t('cacheBypass')}
+            </label>
+            <div className="mb-3">
+              <label className="block text-xs font-bold text-gray-600 mb-1">{t('cacheMaxMB')}</label>
+              <input 
+                type="number" 
+                min={1}
+                max={1000}
+                className="w-full border rounded p-2 text-sm"
+                value={formData.cacheMaxMB}
+                onChange={(e) => handleChange('cacheMaxMB', Math.min(1000, Math.max(1, parseInt(e.target.value) || 1)))}
+              />
+            </div>
+            {cacheInfo && (
+              <p className="text-[10px] text-gray-500 mb-2">
+                {t('cacheStats', { entries: cacheInfo.all.entries, mb: formatMB(cacheInfo.all.bytes) })}
+                {projectName && ' · ' + t('cacheProjectStats', { entries: cacheInfo.project.entries, mb: formatMB(cacheInfo.project.bytes) })}
+              </p>
+            )}
+            <div className="flex gap-2">
+              {projectName && (
+                <button 
+                  onClick={handlePurgeProjectCache}
+                  className="text-xs px-3 py-1.5 bg-gray-50 text-gray-700 rounded border border-gray-200 hover:bg-gray-100 font-bold flex items-center gap-1"
+                >
+                  <Trash2 size={14} /> {t('purgeProjectCache')}
+                </button>
+              )}
+              <button 
+                onClick={handlePurgeCache}
+                className="text-xs px-3 py-1.5 bg-red-50 text-red-700 rounded border border-red-200 hover:bg-red-100 font-bold flex items-center gap-1"
+              >
+                <Trash2 size={14} /> {t('purgeCache')}
+              </button>
+            </div>
           </div>
 
           {/* Appearance Config */}
@@ -0,0 +1,238 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { AppSettings, ModelPrice, UsageRecord } from '../types';
+import { UsageTotals, formatCost, formatTokens, summarizeUsage, totalUsage } from '../utils/usage';
+import { Coins, X, Plus, Trash2, BarChart3, BookOpen, DollarSign, CheckCircle } from 'lucide-react';
+
+interface UsageModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  records: UsageRecord[]; // This project's ledger
+  chapterTitles: string[]; // Book order for the per-chapter table
+  settings: AppSettings;
+  onSaveSettings: (prices: ModelPrice[], confirmCostEstimate: boolean) => void;
+  onReset: () => void;
+  t: (key: any, params?: any) => string;
+}
+
+const costLabel = (totals: UsageTotals) =>
+  totals.unpriced ? (totals.cost > 0 ? `${formatCost(totals.cost)}+` : '—') : formatCost(totals.cost);
+
+const UsageTable: React.FC<{ label: string, rows: [string, UsageTotals][], t: (key: any, params?: any) => string }> = ({ label, rows, t }) => (
+  <table className="w-full text-sm">
+    <thead>
+      <tr className="text-xs text-gray-500 border-b">
+        <th className="text-left font-bold py-2 pr-2">{label}</th>
+        <th className="text-right font-bold py-2 px-2">{t('usageCalls')}</th>
+        <th className="text-right font-bold py-2 px-2">{t('usageInputTokens')}</th>
+        <th className="text-right font-bold py-2 px-2">{t('usageOutputTokens')}</th>
+        <th className="text-right font-bold py-2 pl-2">{t('usageCost')}</th>
+      </tr>
+    </thead>
+    <tbody>
+      {rows.map(([name, totals]) => (
+        <tr key={name} className="border-b border-gray-100">
+          <td className="py-1.5 pr-2 truncate max-w-[260px]" title={name}>{name}</td>
+          <td className="py-1.5 px-2 text-right tabular-nums">{totals.calls}</td>
+          <td className="py-1.5 px-2 text-right tabular-nums">{formatTokens(totals.promptTokens)}</td>
+          <td className="py-1.5 px-2 text-right tabular-nums">{formatTokens(totals.completionTokens)}</td>
+          <td className="py-1.5 pl-2 text-right tabular-nums">{costLabel(totals)}</td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+export const UsageModal: React.FC<UsageModalProps> = ({ isOpen, onClose, records, chapterTitles, settings, onSaveSettings, onReset, t }) => {
+  const [prices, setPrices] = useState<ModelPrice[]>(settings.modelPrices);
+  const [confirmEstimate, setConfirmEstimate] = useState(settings.confirmCostEstimate);
+
+  useEffect(() => {
+    if (isOpen) {
+      setPrices(settings.modelPrices);
+      setConfirmEstimate(settings.confirmCostEstimate);
+    }
+  }, [isOpen, settings]);
+
+  // Costs follow the price table being edited
+  const summary = useMemo(() => {
+    const total = totalUsage(records, prices);
+    const byJob = Array.from(summarizeUsage(records, r => r.job, prices).entries())
+      .map(([job, totals]): [string, UsageTotals] => [t(`usageJob_${job}`), totals]);
+    const byModel = Array.from(summarizeUsage(records, r => r.model, prices).entries());
+    const chapters = summarizeUsage(records, r => r.chapter || '', prices);
+    const order = (title: string) => title === '' ? Infinity : (chapterTitles.indexOf(title) + 1 || chapterTitles.length + 1);
+    const byChapter = Array.from(chapters.entries())
+      .sort(([a], [b]) => order(a) - order(b))
+      .map(([title, totals]): [string, UsageTotals] => [title || t('usageProjectWide'), totals]);
+    return { total, byJob, byModel, byChapter };
+  }, [records, prices, chapterTitles, t]);
+
+  if (!isOpen) return null;
+
+  const updatePrice = (index: number, changes: Partial<ModelPrice>) => {
+    setPrices(prev => prev.map((p, i) => i === index ? { ...p, ...changes } : p));
+  };
+
+  const handleReset = () => {
+    if (confirm(t('confirmResetUsage'))) onReset();
+  };
+
+  const handleSave = () => {
+    onSaveSettings(prices.filter(p => p.model.trim()), confirmEstimate);
+    onClose();
+  };
+
+  const { total } = summary;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[999] flex justify-center items-center print:hidden">
+      <div className="bg-white rounded-xl shadow-2xl w-[760px] max-w-[95vw] max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-6 border-b">
+          <div>
+            <h3 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+              <Coins size={24} /> {t('usage')}
+            </h3>
+            <p className="text-xs text-gray-400 mt-1">{t('usageHint')}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* Totals */}
+          <div className="grid grid-cols-4 gap-3">
+            {[
+              { label: t('usageCalls'), value: String(total.calls) },
+              { label: t('usageInputTokens'), value: formatTokens(total.promptTokens) },
+              { label: t('usageOutputTokens'), value: formatTokens(total.completionTokens) },
+              { label: t('usageCost'), value: costLabel(total) }
+            ].map(card => (
+              <div key={card.label} className="bg-gray-50 border border-gray-200 rounded p-3">
+                <div className="text-[10px] font-bold text-gray-500 uppercase">{card.label}</div>
+                <div className="text-lg font-bold text-gray-800 tabular-nums">{card.value}</div>
+              </div>
+            ))}
+          </div>
+          {total.unpriced && <p className="text-[10px] text-amber-700 -mt-4">{t('usageUnpricedHint')}</p>}
+
+          {records.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center py-4">{t('usageEmpty')}</p>
+          ) : (
+            <>
+              <div>
+                <h4 className="font-bold text-sm text-gray-500 mb-2 border-b pb-1 flex items-center gap-1"><BarChart3 size={14}/> {t('usageByJob')}</h4>
+                <UsageTable label={t('usageJob')} rows={summary.byJob} t={t} />
+                <div className="mt-3">
+                  <UsageTable label={t('modelName')} rows={summary.byModel} t={t} />
+                </div>
+              </div>
+              <div>
+                <h4 className="font-bold text-sm text-gray-500 mb-2 border-b pb-1 flex items-center gap-1"><BookOpen size={14}/> {t('usageByChapter')}</h4>
+                <UsageTable label={t('usageChapter')} rows={summary.byChapter} t={t} />
+              </div>
+            </>
+          )}
+
+          {/* Price Table */}
+          <div>
+            <h4 className="font-bold text-sm text-gray-500 mb-2 border-b pb-1 flex items-center gap-1"><DollarSign size={14}/> {t('modelPrices')}</h4>
+            <p className="text-[10px] text-gray-400 mb-2">{t('modelPricesHint')}</p>
+            <table className="w-full text-sm mb-2">
+              <thead>
+                <tr className="text-xs text-gray-500 border-b">
+                  <th className="text-left font-bold py-2 pr-2">{t('modelName')}</th>
+                  <th className="text-left font-bold py-2 pr-2">{t('priceInput')}</th>
+                  <th className="text-left font-bold py-2 pr-2">{t('priceOutput')}</th>
+                  <th className="w-8"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {prices.map((price, i) => (
+                  <tr key={i} className="border-b border-gray-100">
+                    <td className="py-1 pr-2">
+                      <input
+                        type="text"
+                        className={`w-full border rounded p-1.5 text-sm ${price.model === settings.model ? 'border-blue-300 bg-blue-50' : ''}`}
+                        value={price.model}
+                        onChange={(e) => updatePrice(i, { model: e.target.value })}
+                      />
+                    </td>
+                    <td className="py-1 pr-2">
+                      <input
+                        type="number"
+                        min={0}
+                        step={0.01}
+                        className="w-full border rounded p-1.5 text-sm"
+                        value={price.inputPerMillion}
+                        onChange={(e) => updatePrice(i, { inputPerMillion: Math.max(0, parseFloat(e.target.value) || 0) })}
+                      />
+                    </td>
+                    <td className="py-1 pr-2">
+                      <input
+                        type="number"
+                        min={0}
+                        step={0.01}
+                        className="w-full border rounded p-1.5 text-sm"
+                        value={price.outputPerMillion}
+                        onChange={(e) => updatePrice(i, { outputPerMillion: Math.max(0, parseFloat(e.target.value) || 0) })}
+                      />
+                    </td>
+                    <td className="py-1 text-right">
+                      <button
+                        onClick={() => setPrices(prev => prev.filter((_, j) => j !== i))}
+                        className="text-gray-400 hover:text-red-600 p-1"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <button
+              onClick={() => setPrices(prev => [...prev, { model: settings.model, inputPerMillion: 0, outputPerMillion: 0 }])}
+              className="text-xs px-3 py-1.5 bg-gray-50 text-gray-700 rounded border border-gray-200 hover:bg-gray-100 font-bold flex items-center gap-1"
+            >
+              <Plus size={14} /> {t('addModelPrice')}
+            </button>
+
+            <label className="flex items-center gap-2 text-xs font-bold text-gray-600 cursor-pointer mt-4">
+              <input
+                type="checkbox"
+                checked={confirmEstimate}
+                onChange={(e) => setConfirmEstimate(e.target.checked)}
+                className="w-4 h-4 cursor-pointer"
+              />
+              {t('confirmCostEstimate')}
+            </label>
+          </div>
+        </div>
+
+        <div className="p-6 border-t flex justify-between items-center gap-3">
+          <button
+            onClick={handleReset}
+            disabled={records.length === 0}
+            className="text-xs text-red-600 hover:text-red-800 font-bold disabled:text-gray-300"
+          >
+            {t('resetUsage')}
+          </button>
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-600 font-bold hover:bg-gray-100 rounded transition-colors"
+            >
+              {t('cancel')}
+            </button>
+            <button
+              onClick={handleSave}
+              className="bg-primary text-white px-6 py-2 rounded font-bold hover:bg-blue-900 transition-colors flex items-center gap-2"
+            >
+              <CheckCircle size={16} /> {t('saveChanges')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
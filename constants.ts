@@ -1,6 +1,70 @@
 
 
-import { AppSettings } from './types';
+import { AppSettings, ChapterRule, CleaningOptions, ModelPrice, ProjectConfig, PromptTemplate, SegmentationOptions } from './types';
+
+// Built-in prompts. Placeholders are replaced by utils/promptTemplates.renderPrompt.
+export const DEFAULT_PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'default-translate',
+    name: 'Novel Style (Default)',
+    kind: 'translate',
+    isBuiltin: true,
+    body: `You are a professional translator.
+Translate the following array of Chinese text segments into English (Novel Style).
+Maintain a strict 1-to-1 correspondence. The output must be a JSON array of strings.
+Glossary (always use these renderings):
+{glossary}
+
+Input Array: {segments}`
+  },
+  {
+    id: 'default-notes',
+    name: 'Graded Notes (Default)',
+    kind: 'vocabNotes',
+    isBuiltin: true,
+    body: `Role: Data Processing Agent for English Learners.
+Task: Analyze 'focus_words' in the context of the 'en' sentence.
+
+Constraints:
+1. STRICTLY EXCLUDE Proper Nouns (Names, Places, Brands).
+2. 'cm' (Context Meaning): Provide ONLY the specific Chinese meaning of the word IN THIS SENTENCE. Keep it concise (2-4 chars).
+3. 'def' (Side Definition): 
+   - Provide the IPA and full Traditional Chinese definitions.
+   - CRITICAL: Identify if the word has multiple meanings or multiple parts of speech (Polysemy) relevant to the context or high-frequency usage.
+   - Format: IPA [space] ① [pos] Def 1 ② [pos] Def 2 ...
+   - Example: /rʌn/ ① [v.] 跑 ② [v.] 經營
+4. Difficulty Level (l):
+    - Basic (Level 1-2): Return 1.
+    - Target (Level 3-{targetLevel}): Return the word's level number.
+    - Extra / Out of syllabus: Return 99.
+
+Output JSON format:
+[
+    {
+        "id": "...",
+        "vocab": [
+            {"w": "word", "l": 4, "cm": "在此句的意思", "def": "/ipa/ ① [v.] def1 ② [n.] def2"}
+        ]
+    }
+]
+
+Input: {payload}`
+  }
+];
+
+export const PROMPT_VARIABLES = ['segments', 'payload', 'targetLevel', 'glossary', 'context'] as const;
+
+// List prices (USD per million input/output tokens); editable in the usage panel
+export const DEFAULT_MODEL_PRICES: ModelPrice[] = [
+  { model: 'gpt-4o', inputPerMillion: 2.5, outputPerMillion: 10 },
+  { model: 'gpt-4o-mini', inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  { model: 'gpt-4.1', inputPerMillion: 2, outputPerMillion: 8 },
+  { model: 'gpt-4.1-mini', inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  { model: 'gemini-2.5-flash', inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  { model: 'gemini-2.5-pro', inputPerMillion: 1.25, outputPerMillion: 10 },
+  { model: 'claude-sonnet-4-5', inputPerMillion: 3, outputPerMillion: 15 },
+  { model: 'claude-haiku-4-5', inputPerMillion: 1, outputPerMillion: 5 }
+];
 
 export const DEFAULT_SETTINGS: AppSettings = {
   language: 'zh_cn',
@@ -10,6 +74,82 @@ export const DEFAULT_SETTINGS: AppSettings = {
   model: 'gpt-4o',
   fontFamily: "'Crimson Text', 'Noto Serif TC', serif",
   customFontUrl: '',
+  streaming: true,
+  maxTokens: 8192,
+  ollamaNumCtx: 8192,
+  maxAttempts: 4,
+  requestTimeoutSec: 120,
+  promptTemplates: DEFAULT_PROMPT_TEMPLATES,
+  contextPairs: 3,
+  useSynopsis: false,
+  modelPrices: DEFAULT_MODEL_PRICES,
+  confirmCostEstimate: true,
+  cacheEnabled: true,
+  cacheBypass: false,
+  cacheMaxMB: 50,
+  compareModels: [],
+  fallbackChains: {},
+};
+
+// Built-in chapter heading patterns (matched against each trimmed line, case-insensitive)
+export const CHAPTER_RULE_PRESETS: ChapterRule[] = [
+  {
+    id: 'standard',
+    name: '第X章 / Chapter N / 序章 / Prologue',
+    pattern: '^\\s*(?:第[0-9零一二三四五六七八九十百千]+[章卷回節篇]|(?:Chapter|Part|Vol|Book)\\s*\\.?\\s*[\\dIVX]+|序[章言]?|楔子|番外|后记|後記|尾声|尾聲|Introduction|Prologue|Epilogue)',
+    enabled: true
+  },
+  {
+    id: 'bracketed',
+    name: '【第十章】 / [第10章]',
+    pattern: '^[【\\[〔]\\s*第?\\s*[0-9零一二三四五六七八九十百千]+\\s*[章节節回话話]?\\s*[】\\]〕]',
+    enabled: false
+  },
+  {
+    id: 'episode',
+    name: '第X话 / 第X节 / 第X集',
+    pattern: '^第[0-9零一二三四五六七八九十百千]+[话話节集]',
+    enabled: false
+  },
+  {
+    id: 'episode-en',
+    name: 'Episode 3 / Ep. 3',
+    pattern: '^(?:Episode|Ep\\.?)\\s*\\d+',
+    enabled: false
+  },
+  {
+    id: 'numbered',
+    name: '001. / 12、 (short line)',
+    pattern: '^\\d{1,4}\\s*[.、．]\\s*\\S.{0,29}$|^\\d{1,4}\\s*[.、．]?$',
+    enabled: false
+  }
+];
+
+export const DEFAULT_SEGMENTATION: SegmentationOptions = {
+  mode: 'strict',
+  maxLength: 200
+};
+
+export const DEFAULT_CLEANING: CleaningOptions = {
+  builtin: {
+    zeroWidth: true,
+    whitespaceRuns: true,
+    urlLines: true,
+    adPhrases: true,
+    unfinishedFooters: true,
+    duplicateHeadings: true
+  },
+  customRules: []
+};
+
+export const DEFAULT_PROJECT_CONFIG: ProjectConfig = {
+  sourceLanguage: 'zh',
+  activePrompts: { translate: 'default-translate', vocabNotes: 'default-notes' },
+  glossary: [],
+  graded: { enabled: false, targetLevel: 4, maxOutOfLevelRatio: 0.1, autoRewrite: false },
+  chapterRules: CHAPTER_RULE_PRESETS,
+  segmentation: DEFAULT_SEGMENTATION,
+  cleaning: DEFAULT_CLEANING
 };
 
 export const IRREGULAR_VERBS: Record<string, string> = {
@@ -49,8 +189,8 @@ export const TRANSLATIONS = {
     file: "File",
     orUrl: "or URL",
     empty: "Empty",
-    importNovelTitle: "2. Import Novel (.txt)",
-    dragDrop: "Drag & drop .txt file or click to upload",
+    importNovelTitle: "2. Import Novel (.txt / .epub)",
+    dragDrop: "Drag & drop .txt or .epub file or click to upload",
     novelLoaded: "Novel loaded successfully",
     importFirst: "Please import vocabulary first to unlock",
     current: "Current",
@@ -98,7 +238,7 @@ export const TRANSLATIONS = {
     guideStep1: "Import Vocabulary",
     guideDesc1: "Load your vocabulary grading standard (or use the built-in library). The system uses this to identify difficult words.",
     guideStep2: "Import Novel",
-    guideDesc2: "Upload a Chinese novel in .txt format. The system will automatically parse chapters.",
+    guideDesc2: "Upload a Chinese novel in .txt or .epub format. The system will automatically parse chapters.",
     guideStep3: "Translate",
     guideDesc3: "Click 'Translate All' to use AI for high-quality translation.",
     guideStep4: "Generate Notes",
@@ -108,6 +248,217 @@ export const TRANSLATIONS = {
     gotIt: "Got it",
     clearPdf: "Clear",
     confirmClearPdf: "Clear all PDF content? This cannot be undone.",
+    importPreviewTitle: "Import Preview",
+    chapterRules: "Chapter Detection Rules",
+    addCustomRule: "Add Custom Rule",
+    customRule: "Custom Rule",
+    invalidRegex: "Invalid regex",
+    detectedChapters: "Detected {count} chapters",
+    confirmImport: "Confirm Import",
+    cancel: "Cancel",
+    segmentationMode: "Segmentation Mode",
+    segmentStrict: "Strict (one line per segment)",
+    segmentSentence: "Sentence-aware (rejoin wrapped lines, split long paragraphs)",
+    maxSegmentLength: "Max segment length (chars)",
+    encoding: "Text Encoding",
+    autoDetected: "auto-detected",
+    encodingGuessHint: "Encoding was guessed. If the preview looks garbled, choose another encoding.",
+    volumeProgress: "{translated}/{count} chapters translated",
+    translateVolume: "Translate Volume",
+    volumeNotes: "Volume Notes",
+    editMode: "Edit",
+    renameChapter: "Rename chapter",
+    mergeWithNextChapter: "Merge with next chapter",
+    confirmMergeChapter: "Merge \"{b}\" into \"{a}\"?",
+    newChapterTitle: "Title of the new chapter starting here",
+    splitChapterHere: "Start new chapter here",
+    splitAtCursor: "Split at cursor",
+    splitCursorHint: "Click inside the text where the segment should be split first.",
+    mergeWithNext: "Merge with next segment",
+    insertSegment: "Insert new segment after",
+    deleteSegment: "Delete segment",
+    confirmDeleteSegment: "Delete this segment?",
+    cleaningRules: "Noise Cleaning",
+    cleanZeroWidth: "Zero-width characters",
+    cleanWhitespaceRuns: "Full-width whitespace runs",
+    cleanUrlLines: "URL lines and inline links",
+    cleanAdPhrases: "Common ad / site watermark lines",
+    cleanUnfinishedFooters: "\"本章未完\" footers",
+    cleanDuplicateHeadings: "Repeated chapter titles",
+    cleaningReport: "Removed {count} lines",
+    charsRemoved: "{count} chars",
+    sourceLanguage: "Source Language",
+    sourceChinese: "Chinese (translate to English)",
+    sourceEnglish: "English original",
+    englishSourceHint: "The text is used as the English line directly; no translation step. A Chinese line can be added per chapter later.",
+    addChineseLine: "Add Chinese Line",
+    pasteText: "Paste Text",
+    pasteTextTitle: "Paste Text",
+    pasteTextName: "Project Name",
+    pasteTextPlaceholder: "Paste a chapter or excerpt here...",
+    pasteTextHint: "{count} characters. Chapter rules, cleaning and segmentation are applied in the next step.",
+    pastedText: "Pasted text",
+    continue: "Continue",
+    filesSelected: "{count} files",
+    multiFileTxtOnly: "Multi-file import only supports .txt files. Import EPUB files one at a time.",
+    retryFailedSegments: "Retry Failed Segments ({count})",
+    failedCount: "{count} failed",
+    failed: "Failed",
+    translationFailedSegments: "{count} segments could not be translated after retrying. Translated segments were saved; use \"Retry Failed Segments\" to try the rest again.",
+    streamResponses: "Stream responses (show each segment as soon as it is ready)",
+    maxOutputTokens: "Max Output Tokens",
+    ollamaContextWindow: "Context Window (num_ctx)",
+    ollamaHint: "Runs against a local Ollama server; no API key needed. Start Ollama with OLLAMA_ORIGINS set so the browser may call it.",
+    promptTemplates: "Prompt Templates",
+    promptTemplatesHint: "Templates are shared by all projects; the one used for each job is saved with the current project.",
+    editPromptTemplates: "Edit Prompt Templates",
+    promptKindTranslate: "Translation",
+    promptKindNotes: "Vocabulary Notes",
+    activeTemplate: "Template used by this project",
+    newTemplate: "New",
+    newTemplateName: "Name for the new template:",
+    deleteTemplate: "Delete template",
+    confirmDeleteTemplate: "Delete template \"{name}\"?",
+    templateName: "Name",
+    templateBody: "Prompt",
+    resetToDefault: "Reset to Default",
+    confirmResetTemplate: "Replace this prompt with the built-in default?",
+    insertVariable: "Insert at cursor",
+    promptPreview: "Dry Run Preview",
+    promptPreviewSelected: "Rendered for the {count} selected segments. Nothing is sent.",
+    promptPreviewSample: "Rendered for the first {count} segments of the current chapter. Nothing is sent.",
+    previewPrompt: "Preview Prompt",
+    glossary: "Glossary",
+    glossaryHint: "Fixed renderings for names and terms, added to every translation prompt. Proper nouns are never picked as vocabulary.",
+    glossarySearch: "Search terms...",
+    glossaryAdd: "Add Term",
+    glossaryExtract: "Extract from First Chapters",
+    glossaryExtracting: "Extracting...",
+    glossaryExtracted: "Added {count} new terms. Review them, then save.",
+    glossaryExtractFailed: "Glossary extraction failed",
+    glossaryEmpty: "No terms yet. Add them by hand or extract them from the first chapters.",
+    glossarySource: "Source Term",
+    glossaryTarget: "Rendering",
+    glossaryProperNoun: "Proper Noun",
+    glossaryCount: "{count} terms",
+    translationContext: "Translation Context",
+    contextPairs: "Preceding lines sent as context",
+    contextPairsHint: "Already translated lines before each request, so pronouns and speakers carry over. Requests then run one at a time; 0 turns context off.",
+    useSynopsis: "Keep a running chapter synopsis",
+    useSynopsisHint: "After each chapter, one extra request updates a short story summary that is sent with the next chapter.",
+    gradedReader: "Graded Reader",
+    gradedLevelBadge: "Level ≤ {level}",
+    gradedReaderHint: "Translate into English the students can read: the prompt asks for vocabulary within the target level, and every translated segment is scored against the word lists.",
+    gradedEnable: "Translate for a target vocabulary level",
+    gradedTargetLevel: "Target level",
+    gradedLevelOption: "Level {level} and below",
+    gradedMaxRatio: "Allowed out-of-level words (%)",
+    gradedMaxRatioHint: "Segments with a larger share of words above the target level are flagged. Names are not counted.",
+    gradedAutoRewrite: "Automatically send flagged segments back for a simpler rewrite",
+    aboveLevel: "{percent}% above level",
+    aboveLevelCount: "{count} above level",
+    maxAttempts: "Max attempts per request",
+    requestTimeout: "Request timeout (seconds)",
+    retryingIn: "{reason}, retrying in {seconds}s (attempt {attempt}/{max})",
+    retryReason_rateLimit: "Rate limited",
+    retryReason_server: "Server error",
+    retryReason_network: "Network error",
+    retryReason_timeout: "Request timed out",
+    stopJob: "Stop",
+    usage: "Usage",
+    usageHint: "Tokens reported by the API for this project, with costs from the price table below.",
+    usageCalls: "Calls",
+    usageInputTokens: "Input tokens",
+    usageOutputTokens: "Output tokens",
+    usageCost: "Cost (USD)",
+    usageUnpricedHint: "Some usage is from models missing from the price table and is not included in the cost.",
+    usageEmpty: "No API calls recorded for this project yet.",
+    usageByJob: "By job and model",
+    usageJob: "Job",
+    usageByChapter: "By chapter",
+    usageChapter: "Chapter",
+    usageProjectWide: "(whole project)",
+    usageJob_translate: "Translation",
+    usageJob_reverseTranslate: "Chinese line",
+    usageJob_vocabNotes: "Vocabulary notes",
+    usageJob_glossary: "Glossary extraction",
+    usageJob_synopsis: "Chapter synopsis",
+    usageJob_simplify: "Graded rewrite",
+    modelPrices: "Price Table",
+    modelPricesHint: "USD per million tokens. A row also covers model names that start with it (e.g. dated snapshots).",
+    priceInput: "Input / 1M",
+    priceOutput: "Output / 1M",
+    addModelPrice: "Add Model",
+    confirmCostEstimate: "Show an estimated cost before whole-chapter and volume jobs",
+    resetUsage: "Reset usage",
+    confirmResetUsage: "Clear the recorded usage of this project?",
+    costEstimateConfirm: "Estimated usage: about {input} input and {output} output tokens, {cost}.\n\nStart the job?",
+    costUnknown: "cost unknown (no price for {model})",
+    responseCache: "Response Cache",
+    responseCacheHint: "Translations and notes are stored per segment in this browser, so an identical request (same provider, model, prompt and text) is answered without a new API call.",
+    cacheEnabled: "Use the response cache",
+    cacheBypass: "Bypass cache (always regenerate; results are still stored)",
+    cacheMaxMB: "Maximum cache size (MB)",
+    cacheStats: "{entries} entries, {mb} MB",
+    cacheProjectStats: "this project: {entries} entries, {mb} MB",
+    purgeProjectCache: "Clear Project Cache",
+    purgeCache: "Clear All",
+    confirmPurgeProjectCache: "Remove the cached responses of \"{name}\"? Entries also used by other projects are kept.",
+    confirmPurgeCache: "Remove every cached response?",
+    jobQueue: "Queue",
+    jobQueueHint: "Jobs run in order in the background and resume where they stopped after a reload.",
+    queueAddJob: "Add Job",
+    queueJobKind: "Job",
+    queueKindTranslate: "Translate chapters",
+    queueKindNotes: "Generate notes for translated segments",
+    queueFromChapter: "From chapter",
+    queueToChapter: "To chapter",
+    queueAllChapters: "All chapters",
+    queueAdd: "Add",
+    queueJobs: "Jobs",
+    queueEmpty: "No jobs queued.",
+    queueJobTranslate: "Translate chapters {range}",
+    queueJobNotes: "Notes for chapters {range}",
+    queueStatus_queued: "Queued",
+    queueStatus_done: "Done",
+    queueStatus_failed: "Failed",
+    queueRetry: "Retry job",
+    queueRemove: "Remove job",
+    queueChaptersDone: "{done}/{total} chapters",
+    queueFailedSegments: "{count} segments failed (retry them from the chapter)",
+    queueConcurrency: "Chapters at a time",
+    queueClearFinished: "Clear finished",
+    queuePause: "Pause",
+    queuePausing: "Pausing…",
+    queueResume: "Resume",
+    queueStart: "Start",
+    queueCompleted: "All queued jobs are finished.",
+    alternatives: "Alternative Translations",
+    mainModel: "(main)",
+    generateAlternatives: "Generate",
+    currentTranslation: "Current translation",
+    useAlternative: "Use this",
+    difficultyAverage: "Avg. level {level}",
+    offListWords: "{count} off-list",
+    alternativesNotesStale: "This segment has notes. Choosing another translation marks them stale until they are regenerated.",
+    retranslateSegment: "Retranslate / compare alternatives",
+    notesStale: "Notes stale",
+    notesStaleHint: "The translation changed after these notes were generated. Generate notes again to refresh them.",
+    segmentNotFound: "The segment no longer exists.",
+    compareModels: "Comparison Models",
+    compareModelsHint: "Extra models offered when retranslating a single segment. Leave key and URL empty to reuse the main ones for the same provider.",
+    addCompareModel: "Add model",
+    sameAsMain: "Same as main",
+    fallbackChains: "Fallback Models",
+    fallbackChainsHint: "When the main model refuses or its answer is still invalid after a repair, the request moves on to these models in order. Set a chain per job type.",
+    addFallbackModel: "Add fallback model",
+    answeredByFallback: "Answered by fallback {model}",
+    translatedBy: "Translated by {model}",
+    notesBy: "Notes by {model}",
+    stopJobFirst: "A job is running. Stop it (or pause the queue and let it finish) before loading or clearing a project.",
+    epubChaptersHint: "Chapters follow the EPUB's table of contents.",
+    confirmMergeDropsTranslation: "Only one of the two segments is translated. The merged segment will need translating again. Merge anyway?",
+    queueWaitingForJob: "Starts when the current job finishes.",
   },
   zh_cn: {
     appTitle: "只想看小说",
@@ -122,8 +473,8 @@ export const TRANSLATIONS = {
     file: "文件",
     orUrl: "或 URL",
     empty: "空",
-    importNovelTitle: "2. 导入小说 (.txt)",
-    dragDrop: "拖拽 .txt 文件或点击上传",
+    importNovelTitle: "2. 导入小说 (.txt / .epub)",
+    dragDrop: "拖拽 .txt 或 .epub 文件或点击上传",
     novelLoaded: "小说加载成功",
     importFirst: "请先导入词汇库以解锁",
     current: "当前",
@@ -171,7 +522,7 @@ export const TRANSLATIONS = {
     guideStep1: "导入词汇库",
     guideDesc1: "加载分级词汇表（或直接加载默认库）。系统将依据此标准判断生词难度。",
     guideStep2: "导入小说",
-    guideDesc2: "上传 .txt 格式的中文小说文件。系统会自动解析章节目录。",
+    guideDesc2: "上传 .txt 或 .epub 格式的中文小说文件。系统会自动解析章节目录。",
     guideStep3: "AI 翻译",
     guideDesc3: "点击“全文翻译”，AI 将为章节生成高质量的中英对照文本。",
     guideStep4: "生成笔记",
@@ -181,6 +532,217 @@ export const TRANSLATIONS = {
     gotIt: "知道了",
     clearPdf: "清空",
     confirmClearPdf: "确定要清空 PDF 预览区的内容吗？",
+    importPreviewTitle: "导入预览",
+    chapterRules: "章节识别规则",
+    addCustomRule: "添加自定义规则",
+    customRule: "自定义规则",
+    invalidRegex: "正则表达式无效",
+    detectedChapters: "识别到 {count} 章",
+    confirmImport: "确认导入",
+    cancel: "取消",
+    segmentationMode: "分段模式",
+    segmentStrict: "严格模式（每行一段）",
+    segmentSentence: "按句分段（合并断行，拆分长段落）",
+    maxSegmentLength: "每段最大字数",
+    encoding: "文本编码",
+    autoDetected: "自动识别",
+    encodingGuessHint: "编码为推测结果。如预览出现乱码，请手动选择其他编码。",
+    volumeProgress: "已翻译 {translated}/{count} 章",
+    translateVolume: "整卷翻译",
+    volumeNotes: "整卷笔记",
+    editMode: "编辑",
+    renameChapter: "重命名章节",
+    mergeWithNextChapter: "与下一章合并",
+    confirmMergeChapter: "将“{b}”合并到“{a}”？",
+    newChapterTitle: "从此处开始的新章节标题",
+    splitChapterHere: "从此处拆分新章节",
+    splitAtCursor: "在光标处拆分",
+    splitCursorHint: "请先在文本中点击要拆分的位置。",
+    mergeWithNext: "与下一段合并",
+    insertSegment: "在后面插入新段落",
+    deleteSegment: "删除段落",
+    confirmDeleteSegment: "确定删除此段落？",
+    cleaningRules: "杂讯清理",
+    cleanZeroWidth: "零宽字符",
+    cleanWhitespaceRuns: "连续全角空白",
+    cleanUrlLines: "网址行与内嵌链接",
+    cleanAdPhrases: "常见广告 / 站点水印行",
+    cleanUnfinishedFooters: "“本章未完”类页脚",
+    cleanDuplicateHeadings: "重复的章节标题",
+    cleaningReport: "已移除 {count} 行",
+    charsRemoved: "{count} 字符",
+    sourceLanguage: "原文语言",
+    sourceChinese: "中文（翻译成英文）",
+    sourceEnglish: "英文原著",
+    englishSourceHint: "原文直接作为英文行使用，无需翻译。之后可按章节补充中文行。",
+    addChineseLine: "添加中文行",
+    pasteText: "粘贴文本",
+    pasteTextTitle: "粘贴文本",
+    pasteTextName: "项目名称",
+    pasteTextPlaceholder: "在此粘贴章节或片段……",
+    pasteTextHint: "共 {count} 字。下一步将应用章节规则、清理与分段。",
+    pastedText: "粘贴的文本",
+    continue: "继续",
+    filesSelected: "{count} 个文件",
+    multiFileTxtOnly: "多文件导入仅支持 .txt 文件，EPUB 请逐个导入。",
+    retryFailedSegments: "重试失败段落（{count}）",
+    failedCount: "{count} 段失败",
+    failed: "失败",
+    translationFailedSegments: "有 {count} 个段落重试后仍翻译失败。已翻译的段落均已保存，可点击“重试失败段落”再次尝试。",
+    streamResponses: "流式输出（每个段落完成即显示）",
+    maxOutputTokens: "最大输出 Token 数",
+    ollamaContextWindow: "上下文窗口（num_ctx）",
+    ollamaHint: "使用本地 Ollama 服务，无需 API Key。启动 Ollama 时请设置 OLLAMA_ORIGINS 以允许浏览器访问。",
+    promptTemplates: "提示词模板",
+    promptTemplatesHint: "模板在所有项目间共享；每项任务使用哪个模板随当前项目保存。",
+    editPromptTemplates: "编辑提示词模板",
+    promptKindTranslate: "翻译",
+    promptKindNotes: "词汇注释",
+    activeTemplate: "本项目使用的模板",
+    newTemplate: "新建",
+    newTemplateName: "新模板名称：",
+    deleteTemplate: "删除模板",
+    confirmDeleteTemplate: "删除模板“{name}”？",
+    templateName: "名称",
+    templateBody: "提示词",
+    resetToDefault: "恢复默认",
+    confirmResetTemplate: "用内置默认内容替换此提示词？",
+    insertVariable: "插入到光标处",
+    promptPreview: "试运行预览",
+    promptPreviewSelected: "按所选的 {count} 个段落渲染，不会发送请求。",
+    promptPreviewSample: "按当前章节前 {count} 个段落渲染，不会发送请求。",
+    previewPrompt: "预览提示词",
+    glossary: "术语表",
+    glossaryHint: "人名与术语的固定译法，会加入每次翻译的提示词。专有名词不会被选为生词。",
+    glossarySearch: "搜索术语...",
+    glossaryAdd: "添加术语",
+    glossaryExtract: "从前几章提取",
+    glossaryExtracting: "提取中...",
+    glossaryExtracted: "新增 {count} 个术语，请检查后保存。",
+    glossaryExtractFailed: "术语提取失败",
+    glossaryEmpty: "暂无术语。可手动添加，或从前几章自动提取。",
+    glossarySource: "原文术语",
+    glossaryTarget: "译法",
+    glossaryProperNoun: "专有名词",
+    glossaryCount: "共 {count} 个术语",
+    translationContext: "翻译上下文",
+    contextPairs: "作为上下文发送的前文行数",
+    contextPairsHint: "每次请求附带之前已翻译的几行，使代词和说话人保持连贯。启用后请求将逐个执行；设为 0 即关闭。",
+    useSynopsis: "维护章节剧情摘要",
+    useSynopsisHint: "每章完成后额外发送一次请求更新简短的剧情摘要，并随下一章一起发送。",
+    gradedReader: "分级读物",
+    gradedLevelBadge: "等级 ≤ {level}",
+    gradedReaderHint: "译成学生读得懂的英文：提示词要求使用目标等级以内的词汇，并按词表为每个译文段落评分。",
+    gradedEnable: "按目标词汇等级翻译",
+    gradedTargetLevel: "目标等级",
+    gradedLevelOption: "{level} 级及以下",
+    gradedMaxRatio: "允许的超纲词比例 (%)",
+    gradedMaxRatioHint: "超纲词占比超过此值的段落会被标记。人名不计入。",
+    gradedAutoRewrite: "自动将被标记的段落发回改写得更简单",
+    aboveLevel: "{percent}% 超纲",
+    aboveLevelCount: "{count} 段超纲",
+    maxAttempts: "每个请求最多尝试次数",
+    requestTimeout: "请求超时（秒）",
+    retryingIn: "{reason}，{seconds} 秒后重试（第 {attempt}/{max} 次）",
+    retryReason_rateLimit: "触发速率限制",
+    retryReason_server: "服务器错误",
+    retryReason_network: "网络错误",
+    retryReason_timeout: "请求超时",
+    stopJob: "停止",
+    usage: "用量",
+    usageHint: "本项目由 API 回报的 Token 用量，费用按下方价格表计算。",
+    usageCalls: "调用次数",
+    usageInputTokens: "输入 Token",
+    usageOutputTokens: "输出 Token",
+    usageCost: "费用（美元）",
+    usageUnpricedHint: "部分用量来自价格表中没有的模型，未计入费用。",
+    usageEmpty: "本项目尚无 API 调用记录。",
+    usageByJob: "按任务与模型",
+    usageJob: "任务",
+    usageByChapter: "按章节",
+    usageChapter: "章节",
+    usageProjectWide: "（整个项目）",
+    usageJob_translate: "翻译",
+    usageJob_reverseTranslate: "中文对照",
+    usageJob_vocabNotes: "词汇注释",
+    usageJob_glossary: "术语提取",
+    usageJob_synopsis: "章节梗概",
+    usageJob_simplify: "分级改写",
+    modelPrices: "价格表",
+    modelPricesHint: "每百万 Token 的美元价格。每行也适用于以该名称开头的模型（如带日期的版本）。",
+    priceInput: "输入 / 百万",
+    priceOutput: "输出 / 百万",
+    addModelPrice: "添加模型",
+    confirmCostEstimate: "整章和整卷任务开始前显示预估费用",
+    resetUsage: "重置用量",
+    confirmResetUsage: "清除本项目的用量记录？",
+    costEstimateConfirm: "预估用量：约 {input} 输入 Token、{output} 输出 Token，{cost}。\n\n开始任务？",
+    costUnknown: "费用未知（{model} 没有价格）",
+    responseCache: "响应缓存",
+    responseCacheHint: "翻译和注释按段落保存在本浏览器中，相同的请求（相同的服务商、模型、提示词和文本）无需再次调用 API。",
+    cacheEnabled: "使用响应缓存",
+    cacheBypass: "跳过缓存（总是重新生成，结果仍会保存）",
+    cacheMaxMB: "缓存上限（MB）",
+    cacheStats: "{entries} 条，{mb} MB",
+    cacheProjectStats: "本项目：{entries} 条，{mb} MB",
+    purgeProjectCache: "清除项目缓存",
+    purgeCache: "全部清除",
+    confirmPurgeProjectCache: "删除“{name}”的缓存响应？其他项目也在使用的条目会保留。",
+    confirmPurgeCache: "删除所有缓存响应？",
+    jobQueue: "队列",
+    jobQueueHint: "任务在后台按顺序执行，重新加载页面后会从中断处继续。",
+    queueAddJob: "添加任务",
+    queueJobKind: "任务",
+    queueKindTranslate: "翻译章节",
+    queueKindNotes: "为已翻译段落生成注释",
+    queueFromChapter: "起始章节",
+    queueToChapter: "结束章节",
+    queueAllChapters: "全部章节",
+    queueAdd: "添加",
+    queueJobs: "任务列表",
+    queueEmpty: "队列中没有任务。",
+    queueJobTranslate: "翻译第 {range} 章",
+    queueJobNotes: "第 {range} 章的注释",
+    queueStatus_queued: "排队中",
+    queueStatus_done: "已完成",
+    queueStatus_failed: "失败",
+    queueRetry: "重试任务",
+    queueRemove: "移除任务",
+    queueChaptersDone: "{done}/{total} 章",
+    queueFailedSegments: "{count} 个段落失败（可在章节中重试）",
+    queueConcurrency: "同时处理章节数",
+    queueClearFinished: "清除已结束",
+    queuePause: "暂停",
+    queuePausing: "正在暂停…",
+    queueResume: "继续",
+    queueStart: "开始",
+    queueCompleted: "队列中的任务已全部完成。",
+    alternatives: "备选译文",
+    mainModel: "（主模型）",
+    generateAlternatives: "生成",
+    currentTranslation: "当前译文",
+    useAlternative: "采用",
+    difficultyAverage: "平均级别 {level}",
+    offListWords: "{count} 个超纲词",
+    alternativesNotesStale: "此段落已有注释。采用其他译文后，注释会标记为过期，直到重新生成。",
+    retranslateSegment: "重新翻译 / 比较备选译文",
+    notesStale: "注释过期",
+    notesStaleHint: "注释生成后译文已更改，请重新生成注释。",
+    segmentNotFound: "该段落已不存在。",
+    compareModels: "对比模型",
+    compareModelsHint: "重新翻译单个段落时可选用的其他模型。同一服务商的密钥和地址留空即沿用主设置。",
+    addCompareModel: "添加模型",
+    sameAsMain: "与主设置相同",
+    fallbackChains: "备用模型",
+    fallbackChainsHint: "主模型拒绝回答或修复后仍返回无效结果时，请求会依次改用这些模型。可按任务类型分别设置。",
+    addFallbackModel: "添加备用模型",
+    answeredByFallback: "由备用模型 {model} 回答",
+    translatedBy: "翻译模型：{model}",
+    notesBy: "注释模型：{model}",
+    stopJobFirst: "有任务正在运行。请先停止（或暂停队列并等待其结束），再加载或清除项目。",
+    epubChaptersHint: "章节按 EPUB 目录划分。",
+    confirmMergeDropsTranslation: "两个段落中只有一个已翻译，合并后需要重新翻译。仍要合并吗？",
+    queueWaitingForJob: "当前任务结束后自动开始。",
   },
   zh_tw: {
     appTitle: "只想看小說",
@@ -195,8 +757,8 @@ export const TRANSLATIONS = {
     file: "文件",
     orUrl: "或 URL",
     empty: "空",
-    importNovelTitle: "2. 匯入小說 (.txt)",
-    dragDrop: "拖拽 .txt 文件或點擊上傳",
+    importNovelTitle: "2. 匯入小說 (.txt / .epub)",
+    dragDrop: "拖拽 .txt 或 .epub 文件或點擊上傳",
     novelLoaded: "小說加載成功",
     importFirst: "請先匯入詞彙庫以解鎖",
     current: "當前",
@@ -244,7 +806,7 @@ export const TRANSLATIONS = {
     guideStep1: "匯入詞彙庫",
     guideDesc1: "加載分級詞彙表（或直接加載默認庫）。系統將依據此標準判斷生詞難度。",
     guideStep2: "匯入小說",
-    guideDesc2: "上傳 .txt 格式的中文小說文件。系統會自動解析章節目錄。",
+    guideDesc2: "上傳 .txt 或 .epub 格式的中文小說文件。系統會自動解析章節目錄。",
     guideStep3: "AI 翻譯",
     guideDesc3: "點擊“全文翻譯”，AI 將為章節生成高質量的中英對照文本。",
     guideStep4: "生成筆記",
@@ -254,5 +816,216 @@ export const TRANSLATIONS = {
     gotIt: "知道了",
     clearPdf: "清空",
     confirmClearPdf: "確定要清空 PDF 預覽區的內容嗎？",
+    importPreviewTitle: "匯入預覽",
+    chapterRules: "章節識別規則",
+    addCustomRule: "添加自定義規則",
+    customRule: "自定義規則",
+    invalidRegex: "正則表達式無效",
+    detectedChapters: "識別到 {count} 章",
+    confirmImport: "確認匯入",
+    cancel: "取消",
+    segmentationMode: "分段模式",
+    segmentStrict: "嚴格模式（每行一段）",
+    segmentSentence: "按句分段（合併斷行，拆分長段落）",
+    maxSegmentLength: "每段最大字數",
+    encoding: "文本編碼",
+    autoDetected: "自動識別",
+    encodingGuessHint: "編碼為推測結果。如預覽出現亂碼，請手動選擇其他編碼。",
+    volumeProgress: "已翻譯 {translated}/{count} 章",
+    translateVolume: "整卷翻譯",
+    volumeNotes: "整卷筆記",
+    editMode: "編輯",
+    renameChapter: "重命名章節",
+    mergeWithNextChapter: "與下一章合併",
+    confirmMergeChapter: "將「{b}」合併到「{a}」？",
+    newChapterTitle: "從此處開始的新章節標題",
+    splitChapterHere: "從此處拆分新章節",
+    splitAtCursor: "在游標處拆分",
+    splitCursorHint: "請先在文本中點擊要拆分的位置。",
+    mergeWithNext: "與下一段合併",
+    insertSegment: "在後面插入新段落",
+    deleteSegment: "刪除段落",
+    confirmDeleteSegment: "確定刪除此段落？",
+    cleaningRules: "雜訊清理",
+    cleanZeroWidth: "零寬字符",
+    cleanWhitespaceRuns: "連續全形空白",
+    cleanUrlLines: "網址行與內嵌連結",
+    cleanAdPhrases: "常見廣告 / 站點水印行",
+    cleanUnfinishedFooters: "「本章未完」類頁腳",
+    cleanDuplicateHeadings: "重複的章節標題",
+    cleaningReport: "已移除 {count} 行",
+    charsRemoved: "{count} 字元",
+    sourceLanguage: "原文語言",
+    sourceChinese: "中文（翻譯成英文）",
+    sourceEnglish: "英文原著",
+    englishSourceHint: "原文直接作為英文行使用，無需翻譯。之後可按章節補充中文行。",
+    addChineseLine: "新增中文行",
+    pasteText: "貼上文字",
+    pasteTextTitle: "貼上文字",
+    pasteTextName: "專案名稱",
+    pasteTextPlaceholder: "在此貼上章節或片段……",
+    pasteTextHint: "共 {count} 字。下一步將套用章節規則、清理與分段。",
+    pastedText: "貼上的文字",
+    continue: "繼續",
+    filesSelected: "{count} 個檔案",
+    multiFileTxtOnly: "多檔匯入僅支援 .txt 檔案，EPUB 請逐一匯入。",
+    retryFailedSegments: "重試失敗段落（{count}）",
+    failedCount: "{count} 段失敗",
+    failed: "失敗",
+    translationFailedSegments: "有 {count} 個段落重試後仍翻譯失敗。已翻譯的段落均已儲存，可點擊「重試失敗段落」再次嘗試。",
+    streamResponses: "串流輸出（每個段落完成即顯示）",
+    maxOutputTokens: "最大輸出 Token 數",
+    ollamaContextWindow: "上下文視窗（num_ctx）",
+    ollamaHint: "使用本機 Ollama 服務，無需 API Key。啟動 Ollama 時請設定 OLLAMA_ORIGINS 以允許瀏覽器存取。",
+    promptTemplates: "提示詞範本",
+    promptTemplatesHint: "範本在所有專案間共用；每項任務使用哪個範本隨目前專案儲存。",
+    editPromptTemplates: "編輯提示詞範本",
+    promptKindTranslate: "翻譯",
+    promptKindNotes: "詞彙註解",
+    activeTemplate: "本專案使用的範本",
+    newTemplate: "新增",
+    newTemplateName: "新範本名稱：",
+    deleteTemplate: "刪除範本",
+    confirmDeleteTemplate: "刪除範本「{name}」？",
+    templateName: "名稱",
+    templateBody: "提示詞",
+    resetToDefault: "恢復預設",
+    confirmResetTemplate: "以內建預設內容取代此提示詞？",
+    insertVariable: "插入至游標處",
+    promptPreview: "試運行預覽",
+    promptPreviewSelected: "依所選的 {count} 個段落產生，不會送出請求。",
+    promptPreviewSample: "依目前章節前 {count} 個段落產生，不會送出請求。",
+    previewPrompt: "預覽提示詞",
+    glossary: "術語表",
+    glossaryHint: "人名與術語的固定譯法，會加入每次翻譯的提示詞。專有名詞不會被選為生詞。",
+    glossarySearch: "搜尋術語...",
+    glossaryAdd: "新增術語",
+    glossaryExtract: "從前幾章擷取",
+    glossaryExtracting: "擷取中...",
+    glossaryExtracted: "新增 {count} 個術語，請檢查後儲存。",
+    glossaryExtractFailed: "術語擷取失敗",
+    glossaryEmpty: "尚無術語。可手動新增，或從前幾章自動擷取。",
+    glossarySource: "原文術語",
+    glossaryTarget: "譯法",
+    glossaryProperNoun: "專有名詞",
+    glossaryCount: "共 {count} 個術語",
+    translationContext: "翻譯上下文",
+    contextPairs: "作為上下文送出的前文行數",
+    contextPairsHint: "每次請求附帶先前已翻譯的幾行，使代名詞與說話者保持連貫。啟用後請求將逐一執行；設為 0 即關閉。",
+    useSynopsis: "維護章節劇情摘要",
+    useSynopsisHint: "每章完成後額外送出一次請求更新簡短的劇情摘要，並隨下一章一起送出。",
+    gradedReader: "分級讀物",
+    gradedLevelBadge: "等級 ≤ {level}",
+    gradedReaderHint: "譯成學生讀得懂的英文：提示詞要求使用目標等級以內的詞彙，並依詞表為每個譯文段落評分。",
+    gradedEnable: "依目標詞彙等級翻譯",
+    gradedTargetLevel: "目標等級",
+    gradedLevelOption: "{level} 級及以下",
+    gradedMaxRatio: "允許的超綱詞比例 (%)",
+    gradedMaxRatioHint: "超綱詞占比超過此值的段落會被標記。人名不計入。",
+    gradedAutoRewrite: "自動將被標記的段落送回改寫得更簡單",
+    aboveLevel: "{percent}% 超綱",
+    aboveLevelCount: "{count} 段超綱",
+    maxAttempts: "每個請求最多嘗試次數",
+    requestTimeout: "請求逾時（秒）",
+    retryingIn: "{reason}，{seconds} 秒後重試（第 {attempt}/{max} 次）",
+    retryReason_rateLimit: "觸發速率限制",
+    retryReason_server: "伺服器錯誤",
+    retryReason_network: "網路錯誤",
+    retryReason_timeout: "請求逾時",
+    stopJob: "停止",
+    usage: "用量",
+    usageHint: "本專案由 API 回報的 Token 用量，費用依下方價格表計算。",
+    usageCalls: "呼叫次數",
+    usageInputTokens: "輸入 Token",
+    usageOutputTokens: "輸出 Token",
+    usageCost: "費用（美元）",
+    usageUnpricedHint: "部分用量來自價格表中沒有的模型，未計入費用。",
+    usageEmpty: "本專案尚無 API 呼叫紀錄。",
+    usageByJob: "依任務與模型",
+    usageJob: "任務",
+    usageByChapter: "依章節",
+    usageChapter: "章節",
+    usageProjectWide: "（整個專案）",
+    usageJob_translate: "翻譯",
+    usageJob_reverseTranslate: "中文對照",
+    usageJob_vocabNotes: "詞彙註釋",
+    usageJob_glossary: "術語擷取",
+    usageJob_synopsis: "章節梗概",
+    usageJob_simplify: "分級改寫",
+    modelPrices: "價格表",
+    modelPricesHint: "每百萬 Token 的美元價格。每列也適用於以該名稱開頭的模型（如帶日期的版本）。",
+    priceInput: "輸入 / 百萬",
+    priceOutput: "輸出 / 百萬",
+    addModelPrice: "新增模型",
+    confirmCostEstimate: "整章和整卷任務開始前顯示預估費用",
+    resetUsage: "重設用量",
+    confirmResetUsage: "清除本專案的用量紀錄？",
+    costEstimateConfirm: "預估用量：約 {input} 輸入 Token、{output} 輸出 Token，{cost}。\n\n開始任務？",
+    costUnknown: "費用未知（{model} 沒有價格）",
+    responseCache: "回應快取",
+    responseCacheHint: "翻譯和註釋按段落儲存在本瀏覽器中，相同的請求（相同的服務商、模型、提示詞和文字）無需再次呼叫 API。",
+    cacheEnabled: "使用回應快取",
+    cacheBypass: "略過快取（總是重新產生，結果仍會儲存）",
+    cacheMaxMB: "快取上限（MB）",
+    cacheStats: "{entries} 筆，{mb} MB",
+    cacheProjectStats: "本專案：{entries} 筆，{mb} MB",
+    purgeProjectCache: "清除專案快取",
+    purgeCache: "全部清除",
+    confirmPurgeProjectCache: "刪除「{name}」的快取回應？其他專案也在使用的條目會保留。",
+    confirmPurgeCache: "刪除所有快取回應？",
+    jobQueue: "佇列",
+    jobQueueHint: "任務在背景依序執行，重新載入頁面後會從中斷處繼續。",
+    queueAddJob: "新增任務",
+    queueJobKind: "任務",
+    queueKindTranslate: "翻譯章節",
+    queueKindNotes: "為已翻譯段落產生註釋",
+    queueFromChapter: "起始章節",
+    queueToChapter: "結束章節",
+    queueAllChapters: "全部章節",
+    queueAdd: "新增",
+    queueJobs: "任務列表",
+    queueEmpty: "佇列中沒有任務。",
+    queueJobTranslate: "翻譯第 {range} 章",
+    queueJobNotes: "第 {range} 章的註釋",
+    queueStatus_queued: "排隊中",
+    queueStatus_done: "已完成",
+    queueStatus_failed: "失敗",
+    queueRetry: "重試任務",
+    queueRemove: "移除任務",
+    queueChaptersDone: "{done}/{total} 章",
+    queueFailedSegments: "{count} 個段落失敗（可在章節中重試）",
+    queueConcurrency: "同時處理章節數",
+    queueClearFinished: "清除已結束",
+    queuePause: "暫停",
+    queuePausing: "正在暫停…",
+    queueResume: "繼續",
+    queueStart: "開始",
+    queueCompleted: "佇列中的任務已全部完成。",
+    alternatives: "備選譯文",
+    mainModel: "（主模型）",
+    generateAlternatives: "產生",
+    currentTranslation: "目前譯文",
+    useAlternative: "採用",
+    difficultyAverage: "平均級別 {level}",
+    offListWords: "{count} 個超綱詞",
+    alternativesNotesStale: "此段落已有註釋。採用其他譯文後，註釋會標記為過期，直到重新產生。",
+    retranslateSegment: "重新翻譯 / 比較備選譯文",
+    notesStale: "註釋過期",
+    notesStaleHint: "註釋產生後譯文已變更，請重新產生註釋。",
+    segmentNotFound: "該段落已不存在。",
+    compareModels: "對比模型",
+    compareModelsHint: "重新翻譯單一段落時可選用的其他模型。同一服務商的金鑰和位址留空即沿用主設定。",
+    addCompareModel: "新增模型",
+    sameAsMain: "與主設定相同",
+    fallbackChains: "備用模型",
+    fallbackChainsHint: "主模型拒絕回答或修復後仍回傳無效結果時，請求會依序改用這些模型。可依任務類型分別設定。",
+    addFallbackModel: "新增備用模型",
+    answeredByFallback: "由備用模型 {model} 回答",
+    translatedBy: "翻譯模型：{model}",
+    notesBy: "註釋模型：{model}",
+    stopJobFirst: "有任務正在執行。請先停止（或暫停佇列並等待其結束），再載入或清除專案。",
+    epubChaptersHint: "章節依 EPUB 目錄劃分。",
+    confirmMergeDropsTranslation: "兩個段落中只有一個已翻譯，合併後需要重新翻譯。仍要合併嗎？",
+    queueWaitingForJob: "目前工作結束後自動開始。",
   }
 };
\ No newline at end of file
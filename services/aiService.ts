@@ -1,211 +1,447 @@
 
-import { GoogleGenAI } from "@google/genai";
-import { AppSettings, VocabResult } from "../types";
+import { AppSettings, GlossaryEntry, PromptKind, SourceLanguage, UsageJob, VocabResult } from "../types";
+import { JsonArrayStreamParser } from "../utils/jsonStream";
+import { PromptVariables, defaultTemplateFor, renderPrompt } from "../utils/promptTemplates";
+import { formatGlossary, glossaryForSourceTexts, glossaryForTargetTexts } from "../utils/glossary";
+import { AIProvider, CompletionRequest, CompletionTask, TokenUsage } from "./providers/types";
+import { normalizeResponse, responseSchema, salvageResponse, validStreamedItem, validateResponse } from "./responseSchemas";
+import { RetryPolicy, RetryStatus, withRetry } from "./retry";
+import { ProviderError, classifyError, isCancelledError, isEscalatingError } from "./providers/errors";
+import { ResponseCache, cacheKey } from "./responseCache";
+import { createProvider, getProviderInfo, modelRefLabel, settingsForModel } from "./providers/registry";
 
+const JSON_SYSTEM_PROMPT = "You are a JSON generator. Output valid JSON only.";
+
+// Backoff bounds; attempts and timeout come from settings
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 60000;
+
+// Project-level prompt inputs: the active template bodies and the shared variables
+export interface PromptOptions {
+  templates?: Partial<Record<PromptKind, string>>;
+  targetLevel?: string;
+  glossary?: GlossaryEntry[];
+  gradedLevel?: number; // Set when translations should stay within this vocabulary level
+}
+
+// Read-only text preceding a translation batch, for pronouns, tense and speakers
+export interface TranslationContext {
+  pairs: { source: string; target: string }[];
+  synopsis?: string;
+}
+
+// One request's token counts, labelled for the usage ledger
+export interface UsageSample extends TokenUsage {
+  job: UsageJob;
+  model: string;
+}
+
+// Per-call controls from the running job
+export interface JobOptions {
+  signal?: AbortSignal; // Aborting rejects with a 'cancelled' ProviderError
+  onUsage?: (usage: UsageSample) => void; // Every request the call makes, repairs and retries included
+  // Which model produced which items of a translate or notes call (by index into the call's input);
+  // cache hits report the model stored with them
+  onModel?: (model: string, indices: number[]) => void;
+}
+
+// One backend the service can send to: the main settings or a model from a fallback chain
+interface ModelClient {
+  settings: AppSettings;
+  provider: AIProvider;
+  label: string; // modelRefLabel
+}
+
+const createClient = (settings: AppSettings): ModelClient =>
+  ({ settings, provider: createProvider(settings), label: modelRefLabel(settings) });
+
+// Builds the prompts and parses the JSON; the transport is the configured provider (see providers/registry)
 export class AIService {
   private settings: AppSettings;
+  private main: ModelClient;
+  private chains = new Map<UsageJob, ModelClient[]>();
+  private prompts: PromptOptions;
+  private onRetryStatus?: (status: RetryStatus | null) => void;
+  private cache?: ResponseCache;
 
-  constructor(settings: AppSettings) {
+  constructor(
+    settings: AppSettings,
+    prompts: PromptOptions = {},
+    onRetryStatus?: (status: RetryStatus | null) => void,
+    cache?: ResponseCache
+  ) {
     this.settings = settings;
+    this.prompts = prompts;
+    this.onRetryStatus = onRetryStatus;
+    this.cache = cache;
+    this.main = createClient(settings);
   }
 
-  async translateSegments(segments: string[]): Promise<string[]> {
+  // onItem (optional) receives each array element as soon as it has streamed in (or came from the cache)
+  async translateSegments(
+    segments: string[],
+    onItem?: (text: string, index: number) => void,
+    context?: TranslationContext,
+    job: JobOptions = {}
+  ): Promise<string[]> {
+    // Cached per segment: the key prompt leaves out the batch and the context
+    const keyPrompts = segments.map(segment => this.buildTranslatePrompt([segment]));
+    const texts = await this.withCache<string>('translate', keyPrompts, onItem, indices => {
+      const misses = indices.map(i => segments[i]);
+      // The length check in validateResponse also catches a model re-outputting the context lines
+      const prompt = this.buildTranslatePrompt(misses, context);
+      return this.callJson(prompt, { type: 'translate', input: misses }, onItem && ((text: string, k: number) => onItem(text, indices[k])), job)
+        .then(({ data, model }) => ({ values: data, model }));
+    }, job.onModel);
+    return texts as string[];
+  }
+
+  // Graded reader: rewrite English lines that came out above the students' level.
+  // Cached per line, so a translation served from the cache doesn't pay for its rewrite again.
+  async simplifySegments(texts: string[], level: number, job: JobOptions = {}): Promise<string[]> {
+    const keyPrompts = texts.map(text => this.buildSimplifyPrompt([text], level));
+    const rewrites = await this.withCache<string>('simplify', keyPrompts, undefined, indices => {
+      const misses = indices.map(i => texts[i]);
+      return this.callJson(this.buildSimplifyPrompt(misses, level), { type: 'simplify', input: misses }, undefined, job)
+        .then(({ data, model }) => ({ values: data, model }));
+    }, job.onModel);
+    return rewrites as string[];
+  }
+
+  // Folds a translated chapter into the running synopsis used as context for the next one
+  async summarizeChapter(previousSynopsis: string | undefined, chapterText: string[], job: JobOptions = {}): Promise<string> {
     const prompt = `
-      You are a professional translator. 
-      Translate the following array of Chinese text segments into English (Novel Style).
+      Role: Story editor keeping a running synopsis of a novel.
+      Task: Update the synopsis with the new chapter. Keep the main characters, their relationships,
+      where the story stands and who is speaking to whom at the end. At most 150 words, in English.
+
+      Output JSON format: {"synopsis": "..."}
+
+      Synopsis so far: ${previousSynopsis || '(start of the book)'}
+      New chapter: ${JSON.stringify(chapterText)}
+    `;
+
+    const { data } = await this.callJson(prompt, { type: 'synopsis', input: chapterText }, undefined, job);
+    return data.synopsis.trim();
+  }
+
+  // English-source projects: the optional Chinese line under each paragraph
+  async reverseTranslateSegments(segments: string[], job: JobOptions = {}): Promise<string[]> {
+    const prompt = `
+      You are a professional translator.
+      Translate the following array of English text segments into Traditional Chinese (Novel Style).
       Maintain a strict 1-to-1 correspondence. The output must be a JSON array of strings.
-      
+
       Input Array: ${JSON.stringify(segments)}
     `;
 
-    if (this.settings.apiMode === 'gemini') {
-      return this.callGemini(prompt, true);
-    } else {
-      return this.callOpenAI(prompt, true);
-    }
+    return (await this.callJson(prompt, { type: 'reverseTranslate', input: segments }, undefined, job)).data;
   }
 
-  async generateVocabNotes(payload: any[]): Promise<VocabResult[]> {
+  async generateVocabNotes(
+    payload: any[],
+    onItem?: (result: VocabResult, index: number) => void,
+    job: JobOptions = {}
+  ): Promise<VocabResult[]> {
+    // Ids differ between projects, so the key prompt uses a fixed one; hits get the real id back
+    const keyPrompts = payload.map(item => this.buildNotesPrompt([{ ...item, id: 'p' }]));
+    const withId = (item: any, result: VocabResult): VocabResult => ({ ...result, id: item.id });
+    const results = await this.withCache<VocabResult>('vocabNotes', keyPrompts, onItem && ((result, i) => onItem(withId(payload[i], result), i)), async indices => {
+      const misses = indices.map(i => payload[i]);
+      const { data, model, salvaged } = await this.callJson(
+        this.buildNotesPrompt(misses),
+        { type: 'vocabNotes', input: misses },
+        onItem && ((result: VocabResult) => onItem(result, payload.findIndex(p => p.id === result?.id))),
+        job
+      );
+      // Salvaged responses can lack some ids (those stay undefined) and are never cached
+      const fresh: VocabResult[] = data;
+      return { values: misses.map(item => fresh.find(result => result.id === item.id)), model, cacheable: !salvaged };
+    }, job.onModel);
+    return results.flatMap((result, i) => result ? [withId(payload[i], result)] : []);
+  }
+
+  // Names and recurring terms for the project glossary, from a sample of the source text
+  async extractGlossary(texts: string[], sourceLanguage: SourceLanguage, job: JobOptions = {}): Promise<GlossaryEntry[]> {
+    const [from, to] = sourceLanguage === 'en' ? ['English', 'Traditional Chinese'] : ['Chinese', 'English'];
     const prompt = `
-      Role: Data Processing Agent for English Learners.
-      Task: Analyze 'focus_words' in the context of the 'en' sentence.
-      
+      Role: Terminology extractor for a novel translation.
+      Task: List the character names, place names, organisations, titles and recurring special terms
+      (e.g. cultivation ranks, techniques, artifacts) that appear in the ${from} text below.
+
       Constraints:
-      1. STRICTLY EXCLUDE Proper Nouns (Names, Places, Brands).
-      2. 'cm' (Context Meaning): Provide ONLY the specific Chinese meaning of the word IN THIS SENTENCE. Keep it concise (2-4 chars).
-      3. 'def' (Side Definition): 
-         - Provide the IPA and full Traditional Chinese definitions.
-         - CRITICAL: Identify if the word has multiple meanings or multiple parts of speech (Polysemy) relevant to the context or high-frequency usage.
-         - Format: IPA [space] ① [pos] Def 1 ② [pos] Def 2 ...
-         - Example: /rʌn/ ① [v.] 跑 ② [v.] 經營
-      4. Difficulty Level (l):
-          - Basic (Level 1-2): Return 1.
-          - Target (Level 3-6): Return 3, 4, 5, or 6.
-          - Extra / Out of syllabus: Return 99.
-      
+      1. 'source': the term exactly as written in the text.
+      2. 'target': one consistent ${to} rendering (names in standard romanisation).
+      3. 'proper_noun': true for names of people, places and organisations, false for other terms.
+      4. Skip ordinary vocabulary. List each term once.
+
       Output JSON format:
-      [
-          {
-              "id": "...",
-              "vocab": [
-                  {"w": "word", "l": 4, "cm": "在此句的意思", "def": "/ipa/ ① [v.] def1 ② [n.] def2"}
-              ]
-          }
-      ]
-
-      Input: ${JSON.stringify(payload)}
+      [ {"source": "...", "target": "...", "proper_noun": true} ]
+
+      Text: ${JSON.stringify(texts)}
+    `;
+
+    const items: any[] = (await this.callJson(prompt, { type: 'glossary', input: texts }, undefined, job)).data;
+    return items.map((item, i) => ({
+        id: `gl-${Date.now()}-${i}`,
+        source: item.source,
+        target: item.target,
+        isProperNoun: !!item.proper_noun
+      }));
+  }
+
+  // The prompts exactly as they would be sent (also used for the template dry-run preview);
+  // {glossary} lists only the entries the batch mentions
+  buildTranslatePrompt(segments: string[], context?: TranslationContext): string {
+    const contextBlock = this.formatContext(context);
+    const prompt = this.renderTemplate('translate', {
+      segments: JSON.stringify(segments),
+      glossary: formatGlossary(glossaryForSourceTexts(this.prompts.glossary || [], segments)),
+      context: contextBlock
+    });
+    // Templates without a {context} placeholder get it up front
+    const body = this.prompts.templates?.translate || defaultTemplateFor('translate').body;
+    const withContext = contextBlock && !body.includes('{context}') ? `${contextBlock}\n\n${prompt}` : prompt;
+    return this.prompts.gradedLevel ? `${withContext}\n\n${this.gradedInstruction(this.prompts.gradedLevel)}` : withContext;
+  }
+
+  private gradedInstruction(level: number): string {
+    return `Graded reader: the readers are English learners who know vocabulary up to level ${level} of a six-level school word list `
+      + `(level 1 = the most basic words, level 6 = about 7,000 words). Write the English mostly with words at or below that level `
+      + `and with plain sentence structure, instead of literary "Novel Style" wording. Keep the meaning and every event.`;
+  }
+
+  buildNotesPrompt(payload: { en: string }[]): string {
+    return this.renderTemplate('vocabNotes', {
+      payload: JSON.stringify(payload),
+      glossary: formatGlossary(glossaryForTargetTexts(this.prompts.glossary || [], payload.map(p => p.en)))
+    });
+  }
+
+  private buildSimplifyPrompt(texts: string[], level: number): string {
+    return `
+      Role: Editor of graded readers for English learners.
+      Task: Rewrite each English line so that it uses vocabulary mostly at or below level ${level}
+      of a six-level school word list (level 1 = the most basic words, level 6 = about 7,000 words).
+
+      Constraints:
+      1. Keep the meaning, the events and every name exactly.
+      2. Prefer common words and plain sentence structure; keep the narrative voice.
+      3. Maintain a strict 1-to-1 correspondence. The output must be a JSON array of strings.
+
+      Input Array: ${JSON.stringify(texts)}
     `;
+  }
 
-    if (this.settings.apiMode === 'gemini') {
-      return this.callGemini(prompt, true);
-    } else {
-      return this.callOpenAI(prompt, true);
+  private formatContext(context?: TranslationContext): string {
+    if (!context || (context.pairs.length === 0 && !context.synopsis)) return '';
+    const lines = ["Context (read-only): the text just before the input. Use it for names, pronouns, tense and speakers. Do NOT translate it again and do NOT include it in the output array."];
+    if (context.synopsis) lines.push(`Story so far: ${context.synopsis}`);
+    if (context.pairs.length > 0) {
+      lines.push("Preceding lines (source => existing translation):");
+      context.pairs.forEach(p => lines.push(`- ${p.source} => ${p.target}`));
     }
+    return lines.join('\n');
   }
 
-  private cleanJson(text: string): string {
-    // 1. Remove Markdown code blocks
-    let clean = text.replace(/```json/g, "").replace(/```/g, "").trim();
-    
-    // 2. Try to extract JSON array or object if there is extra text
-    const jsonMatch = clean.match(/(\[[\s\S]*\]|\{[\s\S]*\})/);
-    if (jsonMatch) {
-      clean = jsonMatch[0];
+  private renderTemplate(kind: PromptKind, variables: PromptVariables): string {
+    const body = this.prompts.templates?.[kind] || defaultTemplateFor(kind).body;
+    return renderPrompt(body, { targetLevel: this.prompts.targetLevel, ...variables });
+  }
+
+  // Model ids available to the configured provider (for the Settings "Fetch Models" button)
+  listModels(): Promise<string[]> {
+    return this.main.provider.listModels();
+  }
+
+  // The main model, then the job's fallback chain from settings (clients are made on first use)
+  private chainFor(job: UsageJob): ModelClient[] {
+    let chain = this.chains.get(job);
+    if (!chain) {
+      const fallbacks = (this.settings.fallbackChains?.[job] || []).filter(ref => ref.model.trim());
+      chain = [this.main, ...fallbacks.map(ref => createClient(settingsForModel(this.settings, ref)))];
+      this.chains.set(job, chain);
     }
+    return chain;
+  }
 
-    return clean;
+  // Serves what the response cache has and sends only the misses through `fetchMisses`
+  // (results aligned with the indices it gets, plus the model that produced them); new results
+  // are stored unless they are marked not cacheable. Without a cache everything is a miss. Keys use
+  // the main model even when a fallback answered, so the same request is served the result that was accepted.
+  private async withCache<T>(
+    job: UsageJob,
+    keyPrompts: string[],
+    onHit: ((value: T, index: number) => void) | undefined,
+    fetchMisses: (indices: number[]) => Promise<{ values: (T | undefined)[], model: string, cacheable?: boolean }>,
+    onModel?: (model: string, indices: number[]) => void
+  ): Promise<(T | undefined)[]> {
+    const reportModel = (model: string | undefined, indices: number[], results: (T | undefined)[]) => {
+      const produced = indices.filter(i => results[i] !== undefined);
+      if (model && produced.length > 0) onModel?.(model, produced);
+    };
+
+    if (!this.cache) {
+      const all = keyPrompts.map((_, i) => i);
+      const { values, model } = await fetchMisses(all);
+      reportModel(model, all, values);
+      return values;
+    }
+
+    const keys = await Promise.all(keyPrompts.map(prompt => cacheKey([this.settings.apiMode, this.settings.model, job, prompt])));
+    const cached = await this.cache.get(keys);
+    const results: (T | undefined)[] = cached.map(entry => entry?.value);
+    results.forEach((value, i) => { if (value !== undefined) onHit?.(value, i); });
+    new Set(cached.map(entry => entry?.model)).forEach(model =>
+      reportModel(model, keys.map((_, i) => i).filter(i => cached[i] && cached[i]!.model === model), results));
+
+    const misses = keys.map((_, i) => i).filter(i => results[i] === undefined);
+    if (misses.length === 0) return results;
+
+    const { values, model, cacheable = true } = await fetchMisses(misses);
+    misses.forEach((index, k) => { results[index] = values[k]; });
+    reportModel(model, misses, results);
+    if (cacheable) await this.cache.put(misses.filter(index => results[index] !== undefined).map(index => ({ key: keys[index], job, value: results[index], model })));
+    return results;
   }
 
-  private async callGemini(prompt: string, expectJson: boolean): Promise<any> {
+  // Sends to the main model and, when it refuses or its answer stays invalid after the repair,
+  // to each model of the job's fallback chain in turn. Returns the data and the model it came from;
+  // only the last model may fall back to the valid part of an invalid answer (`salvaged`).
+  // Items streamed by a model that then failed are superseded by the final result.
+  private async callJson(
+    prompt: string,
+    task: CompletionTask,
+    onItem?: (item: any, index: number) => void,
+    job: JobOptions = {}
+  ): Promise<{ data: any, model: string, salvaged: boolean }> {
+    const chain = this.chainFor(task.type);
+    for (let i = 0; ; i++) {
+      try {
+        const { data, salvaged } = await this.callModel(chain[i], prompt, task, onItem, job, i === chain.length - 1);
+        return { data, model: chain[i].label, salvaged };
+      } catch (error) {
+        if (i === chain.length - 1 || !isEscalatingError(error)) throw error;
+        console.warn(`${chain[i].label} failed (${classifyError(error)}), falling back to ${chain[i + 1].label}`);
+      }
+    }
+  }
+
+  // JSON requests to one model, adapted to the provider's capabilities; streamed when a listener
+  // is given, streaming is enabled and the provider supports it. The parsed response is validated
+  // against the job's schema; on failure the model gets one repair request listing the problems.
+  // With `canSalvage`, a repair that still fails returns whatever part of it is valid.
+  private async callModel(
+    client: ModelClient,
+    prompt: string,
+    task: CompletionTask,
+    onItem?: (item: any, index: number) => void,
+    job: JobOptions = {},
+    canSalvage = true
+  ): Promise<{ data: any, salvaged: boolean }> {
+    const label = getProviderInfo(client.settings.apiMode).label;
     try {
-      // Use this.settings.apiKey instead of process.env.API_KEY which is not available in browser
-      const ai = new GoogleGenAI({ apiKey: this.settings.apiKey });
-      const response = await ai.models.generateContent({
-        model: this.settings.model || 'gemini-2.5-flash',
-        contents: prompt,
-        config: expectJson ? { responseMimeType: 'application/json' } : undefined
-      });
+      const request = this.buildRequest(client, prompt, task);
+      const text = await this.send(client, request, onItem && this.settings.streaming && client.provider.capabilities().streaming ? onItem : undefined, job);
 
-      const text = response.text;
-      if (!text) throw new Error("Empty response from Gemini");
-
-      if (expectJson) {
-        const cleanText = this.cleanJson(text);
-        try {
-          return JSON.parse(cleanText);
-        } catch (e) {
-          console.error("JSON Parse Error. Raw text:", text, "Cleaned text:", cleanText);
-          throw new Error("Failed to parse JSON response from AI");
-        }
-      }
-      return text;
+      const first = this.checkResponse(text, task);
+      if (first.errors.length === 0) return { data: first.data, salvaged: false };
+
+      console.warn(`${label} response failed validation, requesting a repair:`, first.errors);
+      const repairText = await this.send(client, this.buildRequest(client, this.repairPrompt(prompt, text, first.errors), task), undefined, job);
+      const repaired = this.checkResponse(repairText, task);
+      if (repaired.errors.length === 0) return { data: repaired.data, salvaged: false };
+
+      const salvaged = canSalvage ? salvageResponse(repaired.data ?? first.data, task) : null;
+      if (salvaged) return { data: salvaged, salvaged: true };
+      throw new ProviderError(`Invalid response after repair: ${repaired.errors.slice(0, 3).join('; ')}`, 'invalid');
     } catch (error: any) {
-      console.error("Gemini API Error:", error);
-      throw new Error(error.message || "Gemini API failed");
+      if (!isCancelledError(error)) console.error(`${label} API Error:`, error);
+      // Kept as thrown so callers can tell fatal errors (auth, refusal) from the rest
+      if (error instanceof Error && error.message) throw error;
+      throw new Error(`${label} API failed`);
     }
   }
 
-  private async callOpenAI(prompt: string, expectJson: boolean): Promise<any> {
-    // 1. Clean Base URL: Remove trailing slashes and avoid double "/v1"
-    let baseUrl = this.settings.baseUrl.replace(/\/+$/, "");
-    if (baseUrl.endsWith("/v1")) {
-      baseUrl = baseUrl.slice(0, -3);
-    }
-    
-    // Helper to perform the fetch
-    const performRequest = async (useJsonFormat: boolean) => {
-      const body: any = {
-        model: this.settings.model,
-        messages: [
-          { role: "system", content: expectJson ? "You are a JSON generator. Output valid JSON only." : "You are a helpful assistant." },
-          { role: "user", content: prompt }
-        ]
-      };
-
-      // Handle o1 models which don't support system messages or json_object
-      if (this.settings.model.startsWith('o1')) {
-          body.messages = [{ role: "user", content: prompt }];
-          // o1 usually doesn't support response_format: json_object yet
-      } else if (expectJson && useJsonFormat) {
-        body.response_format = { type: "json_object" };
-      }
+  // One request under the retry policy; streamed items restart from index 0 on a retry.
+  // Only elements that pass the job's schema are passed on.
+  private send(client: ModelClient, request: CompletionRequest, onItem?: (item: any, index: number) => void, job: JobOptions = {}): Promise<string> {
+    const policy: RetryPolicy = {
+      maxAttempts: this.settings.maxAttempts,
+      timeoutMs: this.settings.requestTimeoutSec * 1000,
+      baseDelayMs: RETRY_BASE_DELAY_MS,
+      maxDelayMs: RETRY_MAX_DELAY_MS
+    };
 
-      return fetch(`${baseUrl}/v1/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.settings.apiKey}`
-        },
-        body: JSON.stringify(body)
+    const onUsage = (usage: TokenUsage) => job.onUsage?.({ ...usage, job: request.task.type, model: client.settings.model });
+
+    return withRetry((signal, touch) => {
+      if (!onItem) return client.provider.complete({ ...request, signal, onUsage });
+      const parser = new JsonArrayStreamParser();
+      let index = 0;
+      return client.provider.stream({ ...request, signal, onUsage }, piece => {
+        touch();
+        parser.feed(piece).forEach(item => {
+          const i = index++;
+          const valid = validStreamedItem(item, i, request.task);
+          if (valid !== undefined) onItem(valid, i);
+        });
       });
-    };
+    }, policy, this.onRetryStatus, job.signal);
+  }
 
+  private buildRequest(client: ModelClient, prompt: string, task: CompletionTask): CompletionRequest {
+    const capabilities = client.provider.capabilities();
+    const schema = capabilities.jsonSchema ? responseSchema(task) : undefined;
+    return capabilities.systemPrompt
+      ? { system: JSON_SYSTEM_PROMPT, prompt, json: capabilities.jsonMode, schema, task }
+      : { prompt: `${JSON_SYSTEM_PROMPT}\n\n${prompt}`, json: capabilities.jsonMode, schema, task };
+  }
+
+  // Parse + validate; a parse failure is reported like any other validation error
+  private checkResponse(text: string, task: CompletionTask): { data?: any, errors: string[] } {
+    let data: any;
     try {
-      // Attempt 1
-      let res = await performRequest(expectJson);
-      
-      // Fallback A: 400 Bad Request with json_object
-      if (!res.ok && res.status === 400 && expectJson) {
-        console.warn("OpenAI API returned 400 with json_object. Retrying without response_format...");
-        res = await performRequest(false);
-      }
+      data = normalizeResponse(this.parseJsonResponse(text), task);
+    } catch (e) {
+      return { errors: ["The output is not valid JSON"] };
+    }
+    return { data, errors: validateResponse(data, task) };
+  }
 
-      let data;
-      const contentType = res.headers.get("content-type");
-      if (contentType && contentType.includes("application/json")) {
-        data = await res.json();
-      } else {
-        const text = await res.text();
-        if (!res.ok) throw new Error(`${res.status} ${res.statusText}: ${text.slice(0, 100)}`);
-        throw new Error(`Invalid content-type: ${contentType}`);
-      }
+  private repairPrompt(prompt: string, previousOutput: string, errors: string[]): string {
+    return `${prompt}
 
-      if (!res.ok) {
-        const errorMsg = 
-            data.error?.message || 
-            data.detail || 
-            data.message || 
-            (typeof data.error === 'string' ? data.error : null) ||
-            JSON.stringify(data);
-        throw new Error(errorMsg);
-      }
+      Your previous output was:
+      ${previousOutput}
 
-      let content = data.choices?.[0]?.message?.content;
-      
-      // Check for refusal
-      if (data.choices?.[0]?.message?.refusal) {
-        throw new Error(`Model Refusal: ${data.choices[0].message.refusal}`);
-      }
+      It failed validation:
+      ${errors.map(e => `- ${e}`).join('\n      ')}
 
-      // Fallback B: Empty content with json_object
-      if (!content && expectJson) {
-         console.warn("Empty content received with json_object. Retrying without response_format...");
-         res = await performRequest(false);
-         if (res.ok) {
-            const retryData = await res.json();
-            content = retryData.choices?.[0]?.message?.content;
-         }
-      }
+      Return the complete corrected JSON only, fixing exactly these problems and keeping everything else.
+    `;
+  }
 
-      if (!content) {
-         const reason = data.choices?.[0]?.finish_reason;
-         throw new Error(`Empty response content. Finish Reason: ${reason || 'unknown'}.`);
-      }
+  private cleanJson(text: string): string {
+    // 1. Remove Markdown code blocks
+    let clean = text.replace(/```json/g, "").replace(/```/g, "").trim();
+    
+    // 2. Try to extract JSON array or object if there is extra text
+    const jsonMatch = clean.match(/(\[[\s\S]*\]|\{[\s\S]*\})/);
+    if (jsonMatch) {
+      clean = jsonMatch[0];
+    }
 
-      if (expectJson) {
-        const cleanText = this.cleanJson(content);
-        try {
-          return JSON.parse(cleanText);
-        } catch (e) {
-           console.error("JSON Parse Error. Raw text:", content, "Cleaned text:", cleanText);
-           throw new Error("Failed to parse JSON response from AI");
-        }
-      }
-      return content;
+    return clean;
+  }
 
-    } catch (error: any) {
-      console.error("OpenAI API Error:", error);
-      throw new Error(error.message || "OpenAI API failed");
+  private parseJsonResponse(text: string): any {
+    const cleanText = this.cleanJson(text);
+    try {
+      return JSON.parse(cleanText);
+    } catch (e) {
+      console.error("JSON Parse Error. Raw text:", text, "Cleaned text:", cleanText);
+      throw new Error("Failed to parse JSON response from AI");
     }
   }
 }
@@ -0,0 +1,93 @@
+import { AppSettings } from "../../types";
+import { AIProvider, CompletionRequest, ProviderCapabilities } from "./types";
+import { normalizeBaseUrl, errorFromResponse, readStreamLines, parseSseData } from "./http";
+import { ProviderError } from "./errors";
+
+// Anthropic Messages API (/v1/messages)
+export class AnthropicProvider implements AIProvider {
+  private settings: AppSettings;
+
+  constructor(settings: AppSettings) {
+    this.settings = settings;
+  }
+
+  // No JSON switch on this API; the system prompt asks for JSON instead
+  capabilities(): ProviderCapabilities {
+    return { jsonMode: false, systemPrompt: true, streaming: true, jsonSchema: false };
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      'x-api-key': this.settings.apiKey,
+      'anthropic-version': '2023-06-01',
+      // Required for calls straight from the browser
+      'anthropic-dangerous-direct-browser-access': 'true'
+    };
+  }
+
+  private async performRequest(request: CompletionRequest, stream: boolean): Promise<Response> {
+    const res = await fetch(`${normalizeBaseUrl(this.settings.baseUrl)}/v1/messages`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.headers() },
+      body: JSON.stringify({
+        model: this.settings.model,
+        max_tokens: this.settings.maxTokens,
+        system: request.system,
+        messages: [{ role: "user", content: request.prompt }],
+        stream
+      }),
+      signal: request.signal
+    });
+    if (!res.ok) throw await errorFromResponse(res);
+    return res;
+  }
+
+  private checkResult(content: string, stopReason?: string): string {
+    if (stopReason === 'refusal') throw new ProviderError(`Model Refusal: ${content || 'refused'}`, 'refusal');
+    if (!content) throw new Error(`Empty response content. Stop Reason: ${stopReason || 'unknown'}.`);
+    return content;
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const data = await (await this.performRequest(request, false)).json();
+    if (data.usage) request.onUsage?.({ promptTokens: data.usage.input_tokens || 0, completionTokens: data.usage.output_tokens || 0 });
+    const content = (data.content || []).filter((b: any) => b.type === 'text').map((b: any) => b.text).join('');
+    return this.checkResult(content, data.stop_reason);
+  }
+
+  async stream(request: CompletionRequest, onText: (piece: string) => void): Promise<string> {
+    const res = await this.performRequest(request, true);
+    let content = '';
+    let stopReason: string | undefined;
+    // Input tokens come with message_start, the output total with the last message_delta
+    let promptTokens = 0;
+    let completionTokens = 0;
+
+    await readStreamLines(res, line => {
+      const event = parseSseData(line);
+      if (!event) return;
+      if (event.type === 'error') {
+        const kind = event.error?.type === 'overloaded_error' ? 'server' : event.error?.type === 'rate_limit_error' ? 'rateLimit' : 'other';
+        throw new ProviderError(event.error?.message || JSON.stringify(event.error), kind);
+      }
+      if (event.type === 'message_start') promptTokens = event.message?.usage?.input_tokens || 0;
+      if (event.type === 'message_delta' && event.usage) completionTokens = event.usage.output_tokens || 0;
+      if (event.type === 'message_delta' && event.delta?.stop_reason) stopReason = event.delta.stop_reason;
+      if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+        content += event.delta.text;
+        onText(event.delta.text);
+      }
+    });
+
+    request.onUsage?.({ promptTokens, completionTokens });
+    return this.checkResult(content, stopReason);
+  }
+
+  async listModels(): Promise<string[]> {
+    const res = await fetch(`${normalizeBaseUrl(this.settings.baseUrl)}/v1/models`, { headers: this.headers() });
+    if (!res.ok) throw await errorFromResponse(res);
+    const data = await res.json();
+    if (!Array.isArray(data.data)) throw new Error("Invalid response format: data.data is missing");
+    return data.data.map((m: any) => m.id).sort();
+  }
+}
@@ -0,0 +1,66 @@
+// Provider failures, classified so the retry policy and the UI can tell transient from fatal
+export type ProviderErrorKind =
+  | 'rateLimit' // 429
+  | 'server' // 5xx, overloaded
+  | 'network' // fetch failed, connection dropped mid-stream
+  | 'timeout' // no response within the configured time
+  | 'auth' // 401/403: wrong key or no access
+  | 'refusal' // the model declined the request
+  | 'badRequest' // 4xx: unknown model, invalid parameters
+  | 'invalid' // the response failed validation even after a repair (malformed, truncated)
+  | 'cancelled' // stopped by the user
+  | 'other';
+
+export class ProviderError extends Error {
+  kind: ProviderErrorKind;
+  status?: number;
+  retryAfterMs?: number; // From a Retry-After header
+
+  constructor(message: string, kind: ProviderErrorKind, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.kind = kind;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export const kindForStatus = (status: number): ProviderErrorKind => {
+  if (status === 429) return 'rateLimit';
+  if (status === 408) return 'timeout';
+  if (status >= 500) return 'server';
+  if (status === 401 || status === 403) return 'auth';
+  if (status >= 400) return 'badRequest';
+  return 'other';
+};
+
+// Retry-After is either delay seconds or an HTTP date
+export const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Errors thrown by fetch, the Gemini SDK (ApiError with a numeric status) or our providers
+export const classifyError = (error: any): ProviderErrorKind => {
+  if (error instanceof ProviderError) return error.kind;
+  if (typeof error?.status === 'number') return kindForStatus(error.status);
+  if (error instanceof TypeError) return 'network'; // "Failed to fetch", reset connections
+  return 'other';
+};
+
+// Worth another attempt after a pause
+export const isTransientError = (error: any): boolean =>
+  ['rateLimit', 'server', 'network', 'timeout'].includes(classifyError(error));
+
+export const isCancelledError = (error: any): boolean => classifyError(error) === 'cancelled';
+
+// Another model may do better: move on to the next model in the job's fallback chain
+export const isEscalatingError = (error: any): boolean =>
+  ['refusal', 'invalid'].includes(classifyError(error));
+
+// Retrying can't help: report straight away
+export const isFatalError = (error: any): boolean =>
+  ['auth', 'refusal', 'badRequest'].includes(classifyError(error));
@@ -0,0 +1,99 @@
+import { GoogleGenAI } from "@google/genai";
+import { AppSettings } from "../../types";
+import { AIProvider, CompletionRequest, ProviderCapabilities } from "./types";
+import { ProviderError } from "./errors";
+
+// Candidate finish reasons that mean the answer was withheld for its content
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT'];
+
+// Safety blocks arrive as an empty text; they are refusals, so the fallback chain can take over
+const blockedError = (response: any): ProviderError | null => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) return new ProviderError(`Gemini blocked the prompt: ${blockReason}`, 'refusal');
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) {
+    return new ProviderError(`Gemini blocked the response: ${finishReason}`, 'refusal');
+  }
+  return null;
+};
+
+// Google Gemini through the official SDK
+export class GeminiProvider implements AIProvider {
+  private settings: AppSettings;
+
+  constructor(settings: AppSettings) {
+    this.settings = settings;
+  }
+
+  capabilities(): ProviderCapabilities {
+    return { jsonMode: true, systemPrompt: true, streaming: true, jsonSchema: true };
+  }
+
+  // Use this.settings.apiKey instead of process.env.API_KEY which is not available in browser
+  private client() {
+    return new GoogleGenAI({ apiKey: this.settings.apiKey });
+  }
+
+  private params(request: CompletionRequest) {
+    return {
+      model: this.settings.model || 'gemini-2.5-flash',
+      contents: request.prompt,
+      config: {
+        systemInstruction: request.system,
+        responseMimeType: request.json ? 'application/json' : undefined,
+        responseJsonSchema: request.schema,
+        abortSignal: request.signal
+      }
+    };
+  }
+
+  private reportUsage(request: CompletionRequest, metadata: any) {
+    if (!metadata) return;
+    request.onUsage?.({
+      promptTokens: metadata.promptTokenCount || 0,
+      // Thinking models bill their thoughts as output
+      completionTokens: (metadata.candidatesTokenCount || 0) + (metadata.thoughtsTokenCount || 0)
+    });
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const response = await this.client().models.generateContent(this.params(request));
+    this.reportUsage(request, response.usageMetadata);
+    const blocked = blockedError(response);
+    if (blocked) throw blocked;
+    const text = response.text;
+    if (!text) throw new Error("Empty response from Gemini");
+    return text;
+  }
+
+  async stream(request: CompletionRequest, onText: (piece: string) => void): Promise<string> {
+    const stream = await this.client().models.generateContentStream(this.params(request));
+    let text = '';
+    let usage: any;
+    for await (const chunk of stream) {
+      // Every chunk carries the running totals; the last one counts
+      if (chunk.usageMetadata) usage = chunk.usageMetadata;
+      const blocked = blockedError(chunk);
+      if (blocked) {
+        this.reportUsage(request, usage);
+        throw blocked;
+      }
+      const piece = chunk.text;
+      if (!piece) continue;
+      text += piece;
+      onText(piece);
+    }
+    this.reportUsage(request, usage);
+    if (!text) throw new Error("Empty response from Gemini");
+    return text;
+  }
+
+  async listModels(): Promise<string[]> {
+    const names: string[] = [];
+    const pager = await this.client().models.list();
+    for await (const model of pager) {
+      if (model.name) names.push(model.name.replace(/^models\//, ''));
+    }
+    return names.sort();
+  }
+}
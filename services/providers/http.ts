@@ -0,0 +1,63 @@
+import { ProviderError, kindForStatus, parseRetryAfter } from "./errors";
+
+// Shared fetch helpers for the HTTP providers
+
+// Clean Base URL: remove trailing slashes and avoid double "/v1"
+export const normalizeBaseUrl = (baseUrl: string): string => {
+  let url = baseUrl.replace(/\/+$/, "");
+  if (url.endsWith("/v1")) {
+    url = url.slice(0, -3);
+  }
+  return url;
+};
+
+// Error text from a failed response, whichever shape the provider uses
+// (OpenAI/Anthropic: {error: {message}}, Ollama: {error: "..."}, gateways: {detail}/{message})
+export const readErrorMessage = async (res: Response): Promise<string> => {
+  const text = await res.text();
+  try {
+    const data = JSON.parse(text);
+    return data.error?.message ||
+      (typeof data.error === 'string' ? data.error : null) ||
+      data.detail ||
+      data.message ||
+      JSON.stringify(data);
+  } catch {
+    return `${res.status} ${res.statusText}: ${text.slice(0, 100)}`;
+  }
+};
+
+// A failed response as a classified error (status, Retry-After and the provider's message)
+export const errorFromResponse = async (res: Response): Promise<ProviderError> => {
+  const message = await readErrorMessage(res);
+  return new ProviderError(message, kindForStatus(res.status), res.status, parseRetryAfter(res.headers.get('retry-after')));
+};
+
+// Read a streamed body line by line (SSE and NDJSON both arrive newline-delimited)
+export const readStreamLines = async (res: Response, onLine: (line: string) => void): Promise<void> => {
+  const reader = res.body!.getReader();
+  const decoder = new TextDecoder();
+  let pending = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    pending += decoder.decode(value, { stream: true });
+    const lines = pending.split('\n');
+    pending = lines.pop() || '';
+    lines.forEach(line => line.trim() && onLine(line.trim()));
+  }
+  if (pending.trim()) onLine(pending.trim());
+};
+
+// Parse one "data: {...}" SSE line; anything else (event names, comments, [DONE]) gives null
+export const parseSseData = (line: string): any | null => {
+  if (!line.startsWith('data:')) return null;
+  const payload = line.slice(5).trim();
+  if (payload === '[DONE]') return null;
+  try {
+    return JSON.parse(payload);
+  } catch {
+    return null;
+  }
+};
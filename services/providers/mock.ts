@@ -0,0 +1,80 @@
+import { AIProvider, CompletionRequest, ProviderCapabilities } from "./types";
+import { estimateTokens } from "../../utils/batching";
+
+// Offline provider for demos and tests: answers from the request's task/input instead of the
+// prompt, so the same input always gives the same output. No network, no key.
+
+const MOCK_SENTENCES = [
+  "The old scholar walked slowly along the quiet river, remembering the promise he had made.",
+  "She opened the heavy wooden door and discovered a narrow staircase leading into darkness.",
+  "Rain fell steadily on the village while the merchants gathered their goods in silence.",
+  "He hesitated for a moment, then drew his sword and stepped forward without fear.",
+  "Nobody in the ancient temple could explain why the bell had started ringing at midnight."
+];
+
+// Stream pacing so the staging view visibly fills in during demos
+const MOCK_CHUNK_SIZE = 24;
+const MOCK_DELAY_MS = 15;
+
+const hash = (text: string): number => {
+  let h = 0;
+  for (let i = 0; i < text.length; i++) h = (h * 31 + text.charCodeAt(i)) >>> 0;
+  return h;
+};
+
+export class MockProvider implements AIProvider {
+  capabilities(): ProviderCapabilities {
+    return { jsonMode: true, systemPrompt: true, streaming: true, jsonSchema: false };
+  }
+
+  private respond(request: CompletionRequest): string {
+    const { task } = request;
+    switch (task.type) {
+      case 'translate':
+        return JSON.stringify(task.input.map(text => MOCK_SENTENCES[hash(text) % MOCK_SENTENCES.length]));
+      case 'reverseTranslate':
+        return JSON.stringify(task.input.map(text => `（模擬譯文）${text.slice(0, 20)}`));
+      case 'vocabNotes':
+        return JSON.stringify(task.input.map(item => ({
+          id: item.id,
+          vocab: item.focus_words.map(w => ({ w, l: 3, cm: '示例', def: `/${w}/ ① [mock] ${w}` }))
+        })));
+      case 'glossary': {
+        // Capitalised words (English) or the first two-character runs (Chinese) as "names"
+        const terms = new Set<string>();
+        task.input.forEach(text => (text.match(/\b[A-Z][a-z]{2,}\b|[\u4e00-\u9fff]{2}/g) || []).slice(0, 3).forEach(term => terms.add(term)));
+        return JSON.stringify(Array.from(terms).map(term => ({ source: term, target: `Mock ${hash(term) % 1000}`, proper_noun: true })));
+      }
+      case 'simplify':
+        return JSON.stringify(task.input.map(() => "He walked to the old house and opened the door."));
+      case 'synopsis':
+        return JSON.stringify({ synopsis: MOCK_SENTENCES[hash(task.input.join('')) % MOCK_SENTENCES.length] });
+    }
+  }
+
+  // Estimated counts, so the usage panel has something to show in demos
+  private reportUsage(request: CompletionRequest, text: string) {
+    request.onUsage?.({ promptTokens: estimateTokens((request.system || '') + request.prompt), completionTokens: estimateTokens(text) });
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const text = this.respond(request);
+    this.reportUsage(request, text);
+    return text;
+  }
+
+  async stream(request: CompletionRequest, onText: (piece: string) => void): Promise<string> {
+    const text = this.respond(request);
+    for (let i = 0; i < text.length; i += MOCK_CHUNK_SIZE) {
+      await new Promise(resolve => setTimeout(resolve, MOCK_DELAY_MS));
+      if (request.signal?.aborted) throw new Error('Aborted');
+      onText(text.slice(i, i + MOCK_CHUNK_SIZE));
+    }
+    this.reportUsage(request, text);
+    return text;
+  }
+
+  async listModels(): Promise<string[]> {
+    return ['mock-deterministic'];
+  }
+}
@@ -0,0 +1,80 @@
+import { AppSettings } from "../../types";
+import { AIProvider, CompletionRequest, ProviderCapabilities } from "./types";
+import { normalizeBaseUrl, errorFromResponse, readStreamLines } from "./http";
+
+// Local Ollama server (/api/chat)
+export class OllamaProvider implements AIProvider {
+  private settings: AppSettings;
+
+  constructor(settings: AppSettings) {
+    this.settings = settings;
+  }
+
+  capabilities(): ProviderCapabilities {
+    return { jsonMode: true, systemPrompt: true, streaming: true, jsonSchema: true };
+  }
+
+  private async performRequest(request: CompletionRequest, stream: boolean): Promise<Response> {
+    const messages: { role: string, content: string }[] = [];
+    if (request.system) messages.push({ role: "system", content: request.system });
+    messages.push({ role: "user", content: request.prompt });
+
+    const res = await fetch(`${normalizeBaseUrl(this.settings.baseUrl)}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: this.settings.model,
+        messages,
+        // A JSON Schema is accepted in place of 'json'
+        format: request.schema || (request.json ? 'json' : undefined),
+        stream,
+        // Ollama's default context window is too small for a chapter chunk
+        options: { num_ctx: this.settings.ollamaNumCtx }
+      }),
+      signal: request.signal
+    });
+    if (!res.ok) throw await errorFromResponse(res);
+    return res;
+  }
+
+  // Counts are on the final object ("done": true)
+  private reportUsage(request: CompletionRequest, data: any) {
+    if (data.done) request.onUsage?.({ promptTokens: data.prompt_eval_count || 0, completionTokens: data.eval_count || 0 });
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const data = await (await this.performRequest(request, false)).json();
+    this.reportUsage(request, data);
+    const content = data.message?.content;
+    if (!content) throw new Error("Empty response from Ollama");
+    return content;
+  }
+
+  // Streams NDJSON: one {message: {content}} object per line
+  async stream(request: CompletionRequest, onText: (piece: string) => void): Promise<string> {
+    const res = await this.performRequest(request, true);
+    let content = '';
+
+    await readStreamLines(res, line => {
+      const event = JSON.parse(line);
+      if (event.error) throw new Error(event.error);
+      this.reportUsage(request, event);
+      const piece = event.message?.content;
+      if (piece) {
+        content += piece;
+        onText(piece);
+      }
+    });
+
+    if (!content) throw new Error("Empty response from Ollama");
+    return content;
+  }
+
+  async listModels(): Promise<string[]> {
+    const res = await fetch(`${normalizeBaseUrl(this.settings.baseUrl)}/api/tags`);
+    if (!res.ok) throw await errorFromResponse(res);
+    const data = await res.json();
+    if (!Array.isArray(data.models)) throw new Error("Invalid response format: models is missing");
+    return data.models.map((m: any) => m.name).sort();
+  }
+}
@@ -0,0 +1,159 @@
+import { AppSettings } from "../../types";
+import { AIProvider, CompletionRequest, ProviderCapabilities } from "./types";
+import { normalizeBaseUrl, errorFromResponse, readStreamLines, parseSseData } from "./http";
+import { ProviderError } from "./errors";
+
+// OpenAI /v1/chat/completions and compatible gateways (OneAPI etc.)
+export class OpenAIProvider implements AIProvider {
+  private settings: AppSettings;
+
+  constructor(settings: AppSettings) {
+    this.settings = settings;
+  }
+
+  capabilities(): ProviderCapabilities {
+    // o1 models take no system message, no response_format and no streaming
+    const isO1 = this.settings.model.startsWith('o1');
+    return { jsonMode: !isO1, systemPrompt: !isO1, streaming: !isO1, jsonSchema: !isO1 };
+  }
+
+  // Structured outputs need an object at the top level: arrays go under "items"
+  // (AIService unwraps it again)
+  private responseFormat(schema: Record<string, any>) {
+    const root = schema.type === 'array'
+      ? { type: 'object', properties: { items: schema }, required: ['items'], additionalProperties: false }
+      : schema;
+    return { type: "json_schema", json_schema: { name: "response", strict: true, schema: root } };
+  }
+
+  // useOptions = false is the plain request of fallback A
+  private performRequest(request: CompletionRequest, useOptions: boolean, stream: boolean) {
+    const messages: { role: string, content: string }[] = [];
+    if (request.system) messages.push({ role: "system", content: request.system });
+    messages.push({ role: "user", content: request.prompt });
+
+    const body: any = { model: this.settings.model, messages };
+    if (request.json && useOptions) {
+      body.response_format = request.schema ? this.responseFormat(request.schema) : { type: "json_object" };
+    }
+    if (stream) body.stream = true;
+    // Token counts arrive in a final chunk with no choices
+    if (stream && useOptions) body.stream_options = { include_usage: true };
+
+    return fetch(`${normalizeBaseUrl(this.settings.baseUrl)}/v1/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.settings.apiKey}`
+      },
+      body: JSON.stringify(body),
+      signal: request.signal
+    });
+  }
+
+  // Fallback A: some gateways reject json_object / json_schema / stream_options with a 400
+  private async requestWithFallback(request: CompletionRequest, stream: boolean): Promise<Response> {
+    let res = await this.performRequest(request, true, stream);
+    if (!res.ok && res.status === 400 && request.json) {
+      console.warn("OpenAI API returned 400 with response_format. Retrying without it...");
+      res = await this.performRequest(request, false, stream);
+    }
+    if (!res.ok) throw await errorFromResponse(res);
+    return res;
+  }
+
+  private reportUsage(request: CompletionRequest, usage: any) {
+    if (usage) request.onUsage?.({ promptTokens: usage.prompt_tokens || 0, completionTokens: usage.completion_tokens || 0 });
+  }
+
+  private contentOf(data: any): string | undefined {
+    // Check for refusal (an explicit one, or an answer cut by the content filter)
+    if (data.choices?.[0]?.message?.refusal) {
+      throw new ProviderError(`Model Refusal: ${data.choices[0].message.refusal}`, 'refusal');
+    }
+    if (data.choices?.[0]?.finish_reason === 'content_filter') {
+      throw new ProviderError("Model Refusal: response blocked by the content filter", 'refusal');
+    }
+    return data.choices?.[0]?.message?.content;
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const res = await this.requestWithFallback(request, false);
+
+    const contentType = res.headers.get("content-type");
+    if (!contentType || !contentType.includes("application/json")) {
+      throw new Error(`Invalid content-type: ${contentType}`);
+    }
+    const data = await res.json();
+    this.reportUsage(request, data.usage);
+    let content = this.contentOf(data);
+
+    // Fallback B: Empty content with json_object
+    if (!content && request.json) {
+      console.warn("Empty content received with json_object. Retrying without response_format...");
+      const retry = await this.performRequest(request, false, false);
+      if (retry.ok) {
+        const retryData = await retry.json();
+        this.reportUsage(request, retryData.usage);
+        content = this.contentOf(retryData);
+      }
+    }
+
+    if (!content) {
+      const reason = data.choices?.[0]?.finish_reason;
+      throw new Error(`Empty response content. Finish Reason: ${reason || 'unknown'}.`);
+    }
+    return content;
+  }
+
+  // Server-sent events with stream: true
+  async stream(request: CompletionRequest, onText: (piece: string) => void): Promise<string> {
+    const res = await this.requestWithFallback(request, true);
+
+    // Some compatible gateways ignore stream: true and answer with a normal completion
+    const contentType = res.headers.get("content-type") || '';
+    if (!contentType.includes("text/event-stream") || !res.body) {
+      const data = await res.json();
+      this.reportUsage(request, data.usage);
+      const content = this.contentOf(data);
+      if (!content) throw new Error(`Empty response content. Finish Reason: ${data.choices?.[0]?.finish_reason || 'unknown'}.`);
+      onText(content);
+      return content;
+    }
+
+    let content = '';
+    let refusal = '';
+    let finishReason: string | undefined;
+
+    await readStreamLines(res, line => {
+      const event = parseSseData(line);
+      if (!event) return;
+      if (event.error) throw new Error(event.error.message || JSON.stringify(event.error));
+      this.reportUsage(request, event.usage);
+
+      const choice = event.choices?.[0];
+      if (choice?.finish_reason) finishReason = choice.finish_reason;
+      if (choice?.delta?.refusal) refusal += choice.delta.refusal;
+      const piece = choice?.delta?.content;
+      if (piece) {
+        content += piece;
+        onText(piece);
+      }
+    });
+
+    if (refusal) throw new ProviderError(`Model Refusal: ${refusal}`, 'refusal');
+    if (finishReason === 'content_filter') throw new ProviderError("Model Refusal: response blocked by the content filter", 'refusal');
+    if (!content) throw new Error(`Empty response content. Finish Reason: ${finishReason || 'unknown'}.`);
+    return content;
+  }
+
+  async listModels(): Promise<string[]> {
+    const res = await fetch(`${normalizeBaseUrl(this.settings.baseUrl)}/v1/models`, {
+      headers: { 'Authorization': `Bearer ${this.settings.apiKey}` }
+    });
+    if (!res.ok) throw await errorFromResponse(res);
+    const data = await res.json();
+    if (!Array.isArray(data.data)) throw new Error("Invalid response format: data.data is missing");
+    return data.data.map((m: any) => m.id).sort();
+  }
+}
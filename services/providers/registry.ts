@@ -0,0 +1,81 @@
+import { ApiMode, AppSettings, ModelRef } from "../../types";
+import { AIProvider } from "./types";
+import { OpenAIProvider } from "./openai";
+import { GeminiProvider } from "./gemini";
+import { AnthropicProvider } from "./anthropic";
+import { OllamaProvider } from "./ollama";
+import { MockProvider } from "./mock";
+
+// Everything the app needs to know about a backend besides the transport itself
+export interface ProviderInfo {
+  label: string;
+  requiresApiKey: boolean;
+  usesBaseUrl: boolean; // Gemini and the mock ignore settings.baseUrl
+  defaultBaseUrl: string; // Suggested when switching provider
+  modelPlaceholder: string;
+  create: (settings: AppSettings) => AIProvider;
+}
+
+export const PROVIDERS: Record<ApiMode, ProviderInfo> = {
+  gemini: {
+    label: 'Google Gemini (Official SDK)',
+    requiresApiKey: true,
+    usesBaseUrl: false,
+    defaultBaseUrl: 'https://generativelanguage.googleapis.com',
+    modelPlaceholder: 'gemini-2.5-flash',
+    create: settings => new GeminiProvider(settings)
+  },
+  openai: {
+    label: 'OpenAI / Compatible (OneAPI)',
+    requiresApiKey: true,
+    usesBaseUrl: true,
+    defaultBaseUrl: 'https://api.openai.com',
+    modelPlaceholder: 'gpt-4o',
+    create: settings => new OpenAIProvider(settings)
+  },
+  anthropic: {
+    label: 'Anthropic Claude (Messages API)',
+    requiresApiKey: true,
+    usesBaseUrl: true,
+    defaultBaseUrl: 'https://api.anthropic.com',
+    modelPlaceholder: 'claude-sonnet-4-5',
+    create: settings => new AnthropicProvider(settings)
+  },
+  ollama: {
+    label: 'Ollama (Local)',
+    requiresApiKey: false,
+    usesBaseUrl: true,
+    defaultBaseUrl: 'http://localhost:11434',
+    modelPlaceholder: 'qwen2.5:14b',
+    create: settings => new OllamaProvider(settings)
+  },
+  mock: {
+    label: 'Mock (Offline Demo)',
+    requiresApiKey: false,
+    usesBaseUrl: false,
+    defaultBaseUrl: '',
+    modelPlaceholder: 'mock-deterministic',
+    create: () => new MockProvider()
+  }
+};
+
+// Unknown modes (e.g. from an older saved config) fall back to OpenAI-compatible
+export const getProviderInfo = (mode: ApiMode): ProviderInfo => PROVIDERS[mode] || PROVIDERS.openai;
+
+export const createProvider = (settings: AppSettings): AIProvider => getProviderInfo(settings.apiMode).create(settings);
+
+// Settings for calling another provider/model; an empty key or base URL is taken from the
+// main settings when the provider is the same, otherwise the provider's default URL is used
+export const settingsForModel = (settings: AppSettings, ref: ModelRef): AppSettings => {
+  const sameProvider = ref.apiMode === settings.apiMode;
+  return {
+    ...settings,
+    apiMode: ref.apiMode,
+    model: ref.model,
+    apiKey: ref.apiKey || (sameProvider ? settings.apiKey : ''),
+    baseUrl: ref.baseUrl || (sameProvider ? settings.baseUrl : getProviderInfo(ref.apiMode).defaultBaseUrl)
+  };
+};
+
+// How a model is shown, and recorded on the segments it produced
+export const modelRefLabel = (ref: Pick<ModelRef, 'apiMode' | 'model'>): string => `${ref.model} · ${ref.apiMode}`;
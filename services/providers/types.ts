@@ -0,0 +1,42 @@
+// What a backend can do with a request; AIService adapts the request to these
+export interface ProviderCapabilities {
+  jsonMode: boolean; // Output can be constrained to JSON (response_format / responseMimeType / format)
+  systemPrompt: boolean; // Accepts a separate system message
+  streaming: boolean; // Can stream text as it is generated
+  jsonSchema: boolean; // Output can be constrained to a JSON Schema (see responseSchemas)
+}
+
+// Which AIService job a request belongs to, with its structured input.
+// Real providers only read prompt/system; the mock provider answers from task + input.
+export type CompletionTask =
+  | { type: 'translate'; input: string[] }
+  | { type: 'reverseTranslate'; input: string[] }
+  | { type: 'vocabNotes'; input: { id: string; en: string; focus_words: string[] }[] }
+  | { type: 'glossary'; input: string[] }
+  | { type: 'synopsis'; input: string[] }
+  | { type: 'simplify'; input: string[] };
+
+// Token counts the backend reported for one call
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface CompletionRequest {
+  system?: string;
+  prompt: string;
+  json: boolean;
+  schema?: Record<string, any>; // Only set when the provider declares jsonSchema
+  signal?: AbortSignal; // Aborts the request (per-attempt timeout)
+  onUsage?: (usage: TokenUsage) => void; // Called with the token counts, when the backend reports them
+  task: CompletionTask;
+}
+
+// A backend: turns a request into raw response text (JSON cleanup stays in AIService)
+export interface AIProvider {
+  capabilities(): ProviderCapabilities;
+  complete(request: CompletionRequest): Promise<string>;
+  // Calls onText with each piece as it arrives; resolves with the full text
+  stream(request: CompletionRequest, onText: (piece: string) => void): Promise<string>;
+  listModels(): Promise<string[]>;
+}
@@ -0,0 +1,230 @@
+import { UsageJob } from "../types";
+
+// Validated AI results kept in IndexedDB, one entry per segment, shared by every project.
+// Keys hash the provider, model and the single-segment prompt (template, options and input),
+// so an identical request is answered locally instead of being paid for again.
+
+const DB_NAME = 'ai_response_cache';
+const DB_VERSION = 1;
+const STORE = 'responses';
+
+// A full cache is trimmed to this share of the limit, so it isn't evicted on every write
+const EVICT_TARGET = 0.9;
+
+interface CacheEntry {
+  key: string;
+  job: UsageJob;
+  value: any;
+  model?: string; // Label of the model that produced it (a fallback model, possibly)
+  size: number; // Approximate bytes of the value (JSON, UTF-16)
+  projects: string[]; // Projects that stored or used it (per-project purge)
+  lastUsed: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+}
+
+export interface CachedResponse {
+  value: any;
+  model?: string;
+}
+
+// What AIService needs: look up per-segment results, store new ones
+export interface ResponseCache {
+  get(keys: string[]): Promise<(CachedResponse | undefined)[]>;
+  put(entries: { key: string; job: UsageJob; value: any; model: string }[]): Promise<void>;
+}
+
+export interface ResponseCacheOptions {
+  project: string;
+  maxBytes: number;
+  bypass: boolean; // Skip lookups (forced regeneration); new results are still stored
+}
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Running total of entry sizes, so writes don't walk the store to check the limit.
+// Counted once on the first write, then kept up to date by put, evict and purge.
+let storedBytes: number | null = null;
+
+const adjustStoredBytes = (delta: number) => {
+  if (storedBytes !== null) storedBytes += delta;
+};
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'key' });
+        store.createIndex('lastUsed', 'lastUsed');
+        store.createIndex('projects', 'projects', { multiEntry: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// Walks the store (or one project's entries), calling visit with each cursor
+const forEachEntry = async (
+  mode: IDBTransactionMode,
+  visit: (cursor: IDBCursorWithValue) => void,
+  project?: string
+): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, mode);
+  const store = tx.objectStore(STORE);
+  const request = project !== undefined ? store.index('projects').openCursor(IDBKeyRange.only(project)) : store.openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    visit(cursor);
+    cursor.continue();
+  };
+  await transactionDone(tx);
+};
+
+// SHA-256 of the parts; crypto.subtle only exists in secure contexts, so plain http
+// pages fall back to a 53-bit string hash
+export const cacheKey = async (parts: string[]): Promise<string> => {
+  const text = parts.join('\u0000');
+  if (globalThis.crypto?.subtle) {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+  }
+  let h1 = 0xdeadbeef, h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+};
+
+export const cacheStats = async (project?: string): Promise<CacheStats> => {
+  const stats = { entries: 0, bytes: 0 };
+  await forEachEntry('readonly', cursor => {
+    stats.entries++;
+    stats.bytes += (cursor.value as CacheEntry).size;
+  }, project);
+  return stats;
+};
+
+// Entries shared with other projects only lose this project's tag
+export const purgeProjectCache = async (project: string): Promise<void> => {
+  let freed = 0;
+  await forEachEntry('readwrite', cursor => {
+    const entry = cursor.value as CacheEntry;
+    const projects = entry.projects.filter(p => p !== project);
+    if (projects.length === 0) {
+      freed += entry.size;
+      cursor.delete();
+    } else {
+      cursor.update({ ...entry, projects });
+    }
+  }, project);
+  adjustStoredBytes(-freed);
+};
+
+export const purgeCache = async (): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).clear();
+  await transactionDone(tx);
+  storedBytes = 0;
+};
+
+// Least recently used entries go first
+const evict = async (maxBytes: number): Promise<void> => {
+  if (storedBytes === null || storedBytes <= maxBytes) return;
+
+  let excess = storedBytes - maxBytes * EVICT_TARGET;
+  let freed = 0;
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  const request = tx.objectStore(STORE).index('lastUsed').openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor || excess <= 0) return;
+    const { size } = cursor.value as CacheEntry;
+    excess -= size;
+    freed += size;
+    cursor.delete();
+    cursor.continue();
+  };
+  await transactionDone(tx);
+  adjustStoredBytes(-freed);
+};
+
+// Cache failures (private browsing, quota) are logged and treated as misses
+export const createResponseCache = ({ project, maxBytes, bypass }: ResponseCacheOptions): ResponseCache => ({
+  async get(keys) {
+    if (bypass || keys.length === 0) return keys.map(() => undefined);
+    try {
+      const db = await openDb();
+      const tx = db.transaction(STORE, 'readwrite');
+      const store = tx.objectStore(STORE);
+      const values: (CachedResponse | undefined)[] = keys.map(() => undefined);
+      const now = Date.now();
+      keys.forEach((key, i) => {
+        const request = store.get(key);
+        request.onsuccess = () => {
+          const entry = request.result as CacheEntry | undefined;
+          if (!entry) return;
+          values[i] = { value: entry.value, model: entry.model };
+          // Touch hits for LRU and tag them with this project
+          store.put({ ...entry, lastUsed: now, projects: entry.projects.includes(project) ? entry.projects : [...entry.projects, project] });
+        };
+      });
+      await transactionDone(tx);
+      return values;
+    } catch (e) {
+      console.warn("Response cache lookup failed", e);
+      return keys.map(() => undefined);
+    }
+  },
+
+  async put(items) {
+    if (items.length === 0) return;
+    try {
+      if (storedBytes === null) {
+        const { bytes } = await cacheStats();
+        if (storedBytes === null) storedBytes = bytes; // Another write may have counted it meanwhile
+      }
+      const db = await openDb();
+      const tx = db.transaction(STORE, 'readwrite');
+      const store = tx.objectStore(STORE);
+      const now = Date.now();
+      let added = 0;
+      items.forEach(({ key, job, value, model }) => {
+        // Read and write in the same transaction, so another project's tag on a shared entry isn't lost
+        const request = store.get(key);
+        request.onsuccess = () => {
+          const existing = request.result as CacheEntry | undefined;
+          const projects = existing ? (existing.projects.includes(project) ? existing.projects : [...existing.projects, project]) : [project];
+          const entry: CacheEntry = { key, job, value, model, size: JSON.stringify(value).length * 2, projects, lastUsed: now };
+          added += entry.size - (existing?.size || 0);
+          store.put(entry);
+        };
+      });
+      await transactionDone(tx);
+      adjustStoredBytes(added);
+      await evict(maxBytes);
+    } catch (e) {
+      console.warn("Response cache write failed", e);
+    }
+  }
+});
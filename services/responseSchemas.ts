@@ -0,0 +1,201 @@
+import { CompletionTask } from "./providers/types";
+
+// Levels the notes prompt allows for 'l' (1 = basic, 3-6 = syllabus, 99 = out of syllabus)
+export const VOCAB_LEVELS = [1, 3, 4, 5, 6, 99];
+
+// Validation errors listed in a repair request (the rest are summarised)
+const MAX_REPORTED_ERRORS = 20;
+
+const stringArray = { type: 'array', items: { type: 'string' } };
+
+// JSON Schema of each job's response, for providers with a native schema mode.
+// Kept to the subset every provider accepts (no minItems/maxItems; lengths are checked locally).
+export const responseSchema = (task: CompletionTask): Record<string, any> => {
+  switch (task.type) {
+    case 'translate':
+    case 'reverseTranslate':
+    case 'simplify':
+      return stringArray;
+    case 'vocabNotes':
+      return {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', enum: task.input.map(p => p.id) },
+            vocab: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  w: { type: 'string' },
+                  l: { type: 'integer', enum: VOCAB_LEVELS },
+                  cm: { type: 'string' },
+                  def: { type: 'string' }
+                },
+                required: ['w', 'l', 'cm', 'def'],
+                additionalProperties: false
+              }
+            }
+          },
+          required: ['id', 'vocab'],
+          additionalProperties: false
+        }
+      };
+    case 'glossary':
+      return {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            source: { type: 'string' },
+            target: { type: 'string' },
+            proper_noun: { type: 'boolean' }
+          },
+          required: ['source', 'target', 'proper_noun'],
+          additionalProperties: false
+        }
+      };
+    case 'synopsis':
+      return {
+        type: 'object',
+        properties: { synopsis: { type: 'string' } },
+        required: ['synopsis'],
+        additionalProperties: false
+      };
+  }
+};
+
+const isText = (value: any) => typeof value === 'string' && value.trim() !== '';
+
+const vocabEntryErrors = (entry: any, where: string): string[] => {
+  if (!entry || typeof entry !== 'object') return [`${where} is not an object`];
+  const errors: string[] = [];
+  (['w', 'cm', 'def'] as const).forEach(key => {
+    if (!isText(entry[key])) errors.push(`${where}.${key} is missing or empty`);
+  });
+  if (!VOCAB_LEVELS.includes(entry.l)) errors.push(`${where}.l must be one of ${VOCAB_LEVELS.join(', ')} (got ${JSON.stringify(entry.l)})`);
+  return errors;
+};
+
+const glossaryItemErrors = (item: any, where: string): string[] => {
+  if (!item || typeof item !== 'object') return [`${where} is not an object`];
+  const errors: string[] = [];
+  if (!isText(item.source)) errors.push(`${where}.source is missing or empty`);
+  if (!isText(item.target)) errors.push(`${where}.target is missing or empty`);
+  if (typeof item.proper_noun !== 'boolean') errors.push(`${where}.proper_noun must be true or false`);
+  return errors;
+};
+
+// Problems with a parsed response, phrased so they can be sent back to the model
+export const validateResponse = (data: any, task: CompletionTask): string[] => {
+  const errors: string[] = [];
+
+  switch (task.type) {
+    case 'translate':
+    case 'reverseTranslate':
+    case 'simplify': {
+      if (!Array.isArray(data)) return ["The output must be a JSON array of strings"];
+      if (data.length !== task.input.length) {
+        errors.push(`The array must have exactly ${task.input.length} items (one per input), got ${data.length}`);
+      }
+      data.forEach((item, i) => {
+        if (!isText(item)) errors.push(`Item ${i} must be a non-empty string`);
+      });
+      break;
+    }
+    case 'vocabNotes': {
+      if (!Array.isArray(data)) return ["The output must be a JSON array of {id, vocab} objects"];
+      const expected = new Set(task.input.map(p => p.id));
+      const seen = new Set<string>();
+      data.forEach((item, i) => {
+        if (!item || typeof item !== 'object') {
+          errors.push(`Item ${i} is not an object`);
+          return;
+        }
+        if (!expected.has(item.id)) errors.push(`Item ${i} has unknown id ${JSON.stringify(item.id)}`);
+        else if (seen.has(item.id)) errors.push(`Id ${item.id} appears more than once`);
+        seen.add(item.id);
+        if (!Array.isArray(item.vocab)) errors.push(`Item ${item.id ?? i}: vocab must be an array`);
+        else item.vocab.forEach((entry: any, j: number) => errors.push(...vocabEntryErrors(entry, `Item ${item.id ?? i} vocab[${j}]`)));
+      });
+      const missing = Array.from(expected).filter(id => !seen.has(id));
+      if (missing.length > 0) errors.push(`Missing ids: ${missing.join(', ')}`);
+      break;
+    }
+    case 'glossary': {
+      if (!Array.isArray(data)) return ["The output must be a JSON array of {source, target, proper_noun} objects"];
+      data.forEach((item, i) => errors.push(...glossaryItemErrors(item, `Item ${i}`)));
+      break;
+    }
+    case 'synopsis': {
+      if (!data || typeof data !== 'object' || !isText(data.synopsis)) return ['The output must be {"synopsis": "..."}'];
+      break;
+    }
+  }
+
+  if (errors.length <= MAX_REPORTED_ERRORS) return errors;
+  return [...errors.slice(0, MAX_REPORTED_ERRORS), `...and ${errors.length - MAX_REPORTED_ERRORS} more problems`];
+};
+
+// Jobs merged by id (notes, glossary) can use the valid part of a response that still fails;
+// positional jobs (translations) cannot, so they get null
+export const salvageResponse = (data: any, task: CompletionTask): any[] | null => {
+  if (!Array.isArray(data)) return null;
+
+  if (task.type === 'vocabNotes') {
+    const expected = new Set(task.input.map(p => p.id));
+    const valid = data.filter(item => item && typeof item === 'object' && expected.has(item.id) && Array.isArray(item.vocab));
+    return valid
+      .filter((item, i) => valid.findIndex(other => other.id === item.id) === i)
+      .map(item => ({ id: item.id, vocab: item.vocab.filter((entry: any) => vocabEntryErrors(entry, '').length === 0) }));
+  }
+  if (task.type === 'glossary') {
+    return data.filter(item => glossaryItemErrors(item, '').length === 0);
+  }
+  return null;
+};
+
+// Models often quote numbers: "4" becomes 4 (anything else is left for validation to report)
+const normalizeLevel = (entry: any) =>
+  entry && typeof entry === 'object' && typeof entry.l === 'string' && /^\s*\d+\s*$/.test(entry.l)
+    ? { ...entry, l: Number(entry.l) }
+    : entry;
+
+const normalizeNotesItem = (item: any) =>
+  item && typeof item === 'object' && Array.isArray(item.vocab) ? { ...item, vocab: item.vocab.map(normalizeLevel) } : item;
+
+// JSON modes that require an object at the top level produce e.g. {"items": [...]} or
+// {"translations": [...]}; unwrap a single array property when the job expects an array
+export const normalizeResponse = (data: any, task: CompletionTask): any => {
+  let result = data;
+  if (task.type !== 'synopsis' && !Array.isArray(data) && data && typeof data === 'object') {
+    const arrays = Object.values(data).filter(Array.isArray);
+    if (arrays.length === 1) result = arrays[0];
+  }
+  if (task.type === 'vocabNotes' && Array.isArray(result)) result = result.map(normalizeNotesItem);
+  return result;
+};
+
+// One streamed array element, normalized and checked like the full response would be;
+// undefined when it fails (the final, validated response settles it)
+export const validStreamedItem = (item: any, index: number, task: CompletionTask): any => {
+  switch (task.type) {
+    case 'translate':
+    case 'reverseTranslate':
+    case 'simplify':
+      return index < task.input.length && isText(item) ? item : undefined;
+    case 'vocabNotes': {
+      const normalized = normalizeNotesItem(item);
+      const valid = normalized && typeof normalized === 'object'
+        && task.input.some(p => p.id === normalized.id)
+        && Array.isArray(normalized.vocab)
+        && normalized.vocab.every((entry: any) => vocabEntryErrors(entry, '').length === 0);
+      return valid ? normalized : undefined;
+    }
+    case 'glossary':
+      return glossaryItemErrors(item, '').length === 0 ? item : undefined;
+    default:
+      return undefined;
+  }
+};
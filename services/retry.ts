@@ -0,0 +1,88 @@
+import { ProviderError, ProviderErrorKind, classifyError, isTransientError } from "./providers/errors";
+
+export interface RetryPolicy {
+  maxAttempts: number; // Including the first try
+  timeoutMs: number; // Per attempt; for streams, the longest allowed silence
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// Shown in the status line while waiting ("rate limited, retrying in 12s")
+export interface RetryStatus {
+  kind: ProviderErrorKind;
+  attempt: number; // The attempt about to start
+  maxAttempts: number;
+  delayMs: number;
+  retryAt: number; // Epoch ms when the attempt starts (for a countdown)
+}
+
+const cancelledError = () => new ProviderError('Cancelled', 'cancelled');
+
+// Resolves after `ms`, or rejects as soon as the job is cancelled
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(cancelledError());
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(cancelledError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Exponential backoff with "equal jitter" (half fixed, half random); a Retry-After wins
+export const retryDelay = (attempt: number, policy: RetryPolicy, error: any): number => {
+  if (error instanceof ProviderError && error.retryAfterMs !== undefined) return Math.min(error.retryAfterMs, policy.maxDelayMs);
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return exponential / 2 + Math.random() * exponential / 2;
+};
+
+// Runs one request with a timeout per attempt and retries transient failures (429, 5xx,
+// network, timeout). Anything else is thrown at once. `run` gets the attempt's abort signal
+// and a `touch` to call whenever data arrives, which restarts the timeout.
+// Aborting `jobSignal` stops the running attempt and any wait, with a 'cancelled' error.
+export const withRetry = async <T>(
+  run: (signal: AbortSignal, touch: () => void) => Promise<T>,
+  policy: RetryPolicy,
+  onStatus?: (status: RetryStatus | null) => void,
+  jobSignal?: AbortSignal
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    if (jobSignal?.aborted) throw cancelledError();
+    const controller = new AbortController();
+    const cancel = () => controller.abort();
+    jobSignal?.addEventListener('abort', cancel, { once: true });
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const touch = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, policy.timeoutMs);
+    };
+
+    try {
+      touch();
+      return await run(controller.signal, touch);
+    } catch (e) {
+      if (jobSignal?.aborted) throw cancelledError();
+      const error = timedOut ? new ProviderError(`No response within ${Math.round(policy.timeoutMs / 1000)}s`, 'timeout') : e;
+      if (attempt >= policy.maxAttempts || !isTransientError(error)) throw error;
+
+      const delayMs = retryDelay(attempt, policy, error);
+      console.warn(`Request failed (${classifyError(error)}), retry ${attempt + 1}/${policy.maxAttempts} in ${Math.round(delayMs)}ms`, error);
+      onStatus?.({ kind: classifyError(error), attempt: attempt + 1, maxAttempts: policy.maxAttempts, delayMs, retryAt: Date.now() + delayMs });
+      try {
+        await sleep(delayMs, jobSignal);
+      } finally {
+        onStatus?.(null);
+      }
+    } finally {
+      clearTimeout(timer);
+      jobSignal?.removeEventListener('abort', cancel);
+    }
+  }
+};
@@ -5,13 +5,39 @@ export interface Segment {
   isChapterHeader: boolean;
   status: 'pending' | 'translating' | 'processing' | 'done' | 'error';
   enText?: string;
+  zhText?: string; // Reverse-translated Chinese line (English-source projects only)
   vocabResult?: VocabResult;
+  levelFlag?: LevelScore; // Translation still above the graded-reader target level
+  notesStale?: boolean; // enText was replaced after vocabResult was generated
+  translatedBy?: string; // Model that produced enText (see modelRefLabel)
+  notesBy?: string; // Model that produced vocabResult
+}
+
+// Share of counted words above a vocabulary level, and which words they were
+export interface LevelScore {
+  ratio: number;
+  words: string[];
+}
+
+// Reading difficulty of an English text by vocabulary level (off-list words count as level 7)
+export interface DifficultyScore {
+  average: number;
+  offList: string[];
 }
 
 export interface Chapter {
   title: string;
   segments: Segment[];
   isTranslated: boolean;
+  volume?: string; // Heading of the enclosing volume (e.g. 第一卷), if any
+  synopsis?: string; // Running story summary up to the end of this chapter (translation context)
+}
+
+// Running AI job shown in the staging area ('volume' id is the volume's first chapter index)
+export interface ProcessingState {
+  type: 'chapter' | 'volume' | 'batch' | 'segment' | 'queue';
+  id: string | number;
+  progress?: { done: number; total: number }; // Segments finished so far
 }
 
 export interface VocabWord {
@@ -26,16 +52,182 @@ export interface VocabResult {
   vocab: VocabWord[];
 }
 
+export interface ChapterRule {
+  id: string;
+  name: string;
+  pattern: string;
+  enabled: boolean;
+  isCustom?: boolean;
+}
+
+// 'strict': one segment per non-empty line; 'sentence': rejoin wrapped lines, split long paragraphs
+export type SegmentationMode = 'strict' | 'sentence';
+
+export interface SegmentationOptions {
+  mode: SegmentationMode;
+  maxLength: number;
+}
+
+export type BuiltinCleaningRule = 'zeroWidth' | 'whitespaceRuns' | 'urlLines' | 'adPhrases' | 'unfinishedFooters' | 'duplicateHeadings';
+
+// User rules remove every line their pattern matches
+export interface CleaningRule {
+  id: string;
+  name: string;
+  pattern: string;
+  enabled: boolean;
+}
+
+export interface CleaningOptions {
+  builtin: Record<BuiltinCleaningRule, boolean>;
+  customRules: CleaningRule[];
+}
+
+export interface CleaningReport {
+  // Whole lines dropped, with their 1-based line number in the decoded text
+  removedLines: { line: number; text: string; rule: string }[];
+  // Characters stripped from lines that were kept (zero-width chars, whitespace runs, inline URLs)
+  removedChars: Record<string, number>;
+}
+
+// 'en': the imported text already is the English line (segment.text mirrors enText)
+export type SourceLanguage = 'zh' | 'en';
+
+export type PromptKind = 'translate' | 'vocabNotes';
+
+// Named prompt with {segments}/{payload}/{targetLevel}/{glossary}/{context} placeholders
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  kind: PromptKind;
+  body: string;
+  isBuiltin?: boolean; // Built-in templates can be edited and reset, not deleted
+}
+
+// Fixed rendering of a name or term, kept consistent across chapters
+export interface GlossaryEntry {
+  id: string;
+  source: string; // Term as written in the source text
+  target: string; // Rendering to use in the translation
+  isProperNoun: boolean; // Names/places: never sent as focus_words
+}
+
+// Graded-reader translation: keep the English within the students' vocabulary level
+export interface GradedReaderOptions {
+  enabled: boolean;
+  targetLevel: number; // 1-6, as in the vocabulary lists
+  maxOutOfLevelRatio: number; // Segments above this share of harder words are flagged
+  autoRewrite: boolean; // Send flagged segments back once for a simplifying rewrite
+}
+
+// Per-project parsing/processing configuration, saved alongside the chapters
+export interface ProjectConfig {
+  sourceLanguage: SourceLanguage;
+  activePrompts: Record<PromptKind, string>; // Template id per job
+  glossary: GlossaryEntry[];
+  graded: GradedReaderOptions;
+  chapterRules: ChapterRule[];
+  segmentation: SegmentationOptions;
+  cleaning: CleaningOptions;
+}
+
+export type TextEncodingName = 'utf-8' | 'gb18030' | 'big5' | 'utf-16le' | 'utf-16be' | 'shift_jis';
+
+// Novel text awaiting review in the import preview.
+// File imports keep the raw bytes so the encoding can be overridden before parsing.
+export interface PendingImport {
+  fileName: string;
+  text: string;
+  buffer?: ArrayBuffer;
+  encoding?: TextEncodingName;
+  encodingMethod?: 'bom' | 'valid-utf8' | 'heuristic';
+  // Multi-file imports: one entry per file in chapter order (text holds them joined)
+  parts?: ImportPart[];
+  // EPUB imports: one part per chapter of the book's table of contents; chapter rules don't apply
+  fixedChapters?: boolean;
+}
+
+export interface ImportPart {
+  name: string; // File name without extension, used as the title of a headingless file
+  text: string;
+}
+
 export type Language = 'en' | 'zh_cn' | 'zh_tw';
 
+export type ApiMode = 'openai' | 'gemini' | 'anthropic' | 'ollama' | 'mock';
+
 export interface AppSettings {
   language: Language;
-  apiMode: 'openai' | 'gemini';
+  apiMode: ApiMode;
   baseUrl: string;
   apiKey: string;
   model: string;
   fontFamily: string;
   customFontUrl: string;
+  streaming: boolean; // Stream responses so results appear segment by segment
+  maxTokens: number; // Anthropic: required output limit per request
+  ollamaNumCtx: number; // Ollama: context window (num_ctx) requested from the local model
+  maxAttempts: number; // Tries per request for rate limits, server and network errors
+  requestTimeoutSec: number; // Per attempt; for streams, the longest allowed silence
+  promptTemplates: PromptTemplate[];
+  contextPairs: number; // Preceding source/translation pairs sent with each translation request
+  useSynopsis: boolean; // Keep a running synopsis per chapter and send the previous one as context
+  modelPrices: ModelPrice[];
+  confirmCostEstimate: boolean; // Ask with an estimated cost before whole-chapter and volume jobs
+  cacheEnabled: boolean; // Serve identical translation/notes requests from the local response cache
+  cacheBypass: boolean; // Forced regeneration: skip cache lookups but keep storing results
+  cacheMaxMB: number;
+  compareModels: ModelRef[]; // Offered next to the main model when retranslating a segment
+  fallbackChains: Partial<Record<UsageJob, ModelRef[]>>; // Tried in order after the main model refuses or keeps failing validation
+}
+
+// Another provider/model to call besides the main one. An empty key or base URL
+// reuses the main settings when the provider is the same.
+export interface ModelRef {
+  apiMode: ApiMode;
+  model: string;
+  baseUrl: string;
+  apiKey: string;
+}
+
+// Whole-book work from the queue panel. Progress is kept per chapter; the work itself
+// resumes from segment statuses (untranslated segments, segments without notes).
+export interface QueueJob {
+  id: string;
+  kind: 'translate' | 'notes';
+  chapterIndices: number[];
+  completed: number[]; // Chapters of this job already processed
+  failed: number; // Segments that still failed
+  status: 'queued' | 'done' | 'failed';
+  error?: string; // Why the job stopped (status 'failed')
+}
+
+export interface JobQueue {
+  fileName: string; // Project the jobs belong to
+  jobs: QueueJob[];
+  paused: boolean;
+  concurrency: number; // Chapters of a job processed at once
+}
+
+// USD per million tokens; `model` matches the configured model name exactly or as a prefix
+// (dated snapshots such as gpt-4o-2024-08-06), the longest match winning
+export interface ModelPrice {
+  model: string;
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export type UsageJob = 'translate' | 'reverseTranslate' | 'vocabNotes' | 'glossary' | 'synopsis' | 'simplify';
+
+// Token counts of a project, summed per chapter, job and model.
+// Jobs that aren't tied to a chapter (glossary extraction) have no chapter.
+export interface UsageRecord {
+  chapter?: string; // Chapter title
+  job: UsageJob;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  calls: number;
 }
 
 export interface VocabStats {
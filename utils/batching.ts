@@ -0,0 +1,73 @@
+import { Chapter } from '../types';
+
+// Request batching helpers for the AI jobs
+
+// Rough token count without a tokenizer: CJK characters cost about one token each,
+// other text about one token per four characters
+export const estimateTokens = (text: string): number => {
+  const cjk = (text.match(/[\u3000-\u9fff\uff00-\uffef]/g) || []).length;
+  return Math.ceil(cjk * 1.2 + (text.length - cjk) / 4);
+};
+
+// Greedily pack items into chunks of at most `budget` estimated tokens (an oversized item gets a chunk of its own)
+export const chunkByTokens = <T>(items: T[], budget: number, getText: (item: T) => string): T[][] => {
+  const chunks: T[][] = [];
+  let current: T[] = [];
+  let used = 0;
+
+  items.forEach(item => {
+    const cost = estimateTokens(getText(item));
+    if (current.length > 0 && used + cost > budget) {
+      chunks.push(current);
+      current = [];
+      used = 0;
+    }
+    current.push(item);
+    used += cost;
+  });
+  if (current.length > 0) chunks.push(current);
+
+  return chunks;
+};
+
+// Run the worker over every item with at most `limit` calls in flight.
+// Workers are expected to handle their own errors; a throw stops the remaining items from
+// starting, waits for the calls already in flight, then rethrows.
+export const runWithConcurrency = async <T>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>
+): Promise<void> => {
+  let next = 0;
+  let failure: { error: unknown } | null = null;
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (!failure && next < items.length) {
+      const index = next++;
+      try {
+        await worker(items[index], index);
+      } catch (e) {
+        failure = failure || { error: e };
+      }
+    }
+  });
+  await Promise.all(lanes);
+  if (failure) throw (failure as { error: unknown }).error;
+};
+
+// Up to `limit` translated source/translation pairs right before a segment: from its own
+// chapter first, then the end of the previous one. Untranslated segments are skipped.
+export const precedingPairs = (
+  chapters: Chapter[],
+  chapterIndex: number,
+  segmentId: string,
+  limit: number
+): { source: string; target: string }[] => {
+  if (limit <= 0) return [];
+  const own = chapters[chapterIndex].segments;
+  const position = own.findIndex(s => s.id === segmentId);
+  const candidates = [
+    ...(chapters[chapterIndex - 1]?.segments || []),
+    ...own.slice(0, position < 0 ? 0 : position)
+  ].filter(s => !s.isChapterHeader && s.enText);
+  return candidates.slice(-limit).map(s => ({ source: s.text, target: s.enText! }));
+};
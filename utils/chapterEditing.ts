@@ -0,0 +1,184 @@
+import { Chapter, Segment } from '../types';
+
+// Pure editing operations for the staging area.
+// Each returns a new chapter array; untouched segments keep their ids (and with them
+// their translations and notes), and new segments get ids that were never used before.
+
+export const nextSegmentId = (chapters: Chapter[]): string => {
+  let max = -1;
+  chapters.forEach(chap => chap.segments.forEach(seg => {
+    const match = seg.id.match(/^seg-(\d+)$/);
+    if (match) max = Math.max(max, parseInt(match[1]));
+  }));
+  return `seg-${max + 1}`;
+};
+
+// A chapter counts as translated once every body segment has English text
+const withTranslatedFlag = (chapter: Chapter): Chapter => {
+  const body = chapter.segments.filter(s => !s.isChapterHeader);
+  return { ...chapter, isTranslated: body.length > 0 && body.every(s => !!s.enText) };
+};
+
+// Merged segments list the models of both halves
+const joinModels = (a?: string, b?: string): string | undefined =>
+  a && b && a !== b ? `${a}, ${b}` : a || b;
+
+const updateChapter = (chapters: Chapter[], index: number, update: (chap: Chapter) => Chapter): Chapter[] =>
+  chapters.map((chap, i) => i === index ? withTranslatedFlag(update(chap)) : chap);
+
+// --- Chapter operations ---
+
+export const renameChapter = (chapters: Chapter[], index: number, title: string): Chapter[] =>
+  chapters.map((chap, i) => {
+    if (i !== index) return chap;
+    return {
+      ...chap,
+      title,
+      segments: chap.segments.map(s => s.isChapterHeader ? { ...s, text: title } : s)
+    };
+  });
+
+// Append the following chapter's body to this one (its title segment is dropped)
+export const mergeChapterWithNext = (chapters: Chapter[], index: number): Chapter[] => {
+  if (index < 0 || index >= chapters.length - 1) return chapters;
+  const next = chapters[index + 1];
+  const merged = updateChapter(chapters, index, chap => ({
+    ...chap,
+    segments: [...chap.segments, ...next.segments.filter(s => !s.isChapterHeader)]
+  }));
+  return merged.filter((_, i) => i !== index + 1);
+};
+
+// Start a new chapter at the given segment; that segment and everything after it move over
+export const splitChapterAt = (chapters: Chapter[], index: number, segmentId: string, title: string): Chapter[] => {
+  const chap = chapters[index];
+  const splitIdx = chap.segments.findIndex(s => s.id === segmentId);
+  if (splitIdx <= 0) return chapters;
+
+  const header: Segment = { id: nextSegmentId(chapters), text: title, isChapterHeader: true, status: 'pending' };
+  const head = withTranslatedFlag({ ...chap, segments: chap.segments.slice(0, splitIdx) });
+  const tail = withTranslatedFlag({
+    title,
+    volume: chap.volume,
+    isTranslated: false,
+    segments: [header, ...chap.segments.slice(splitIdx).filter(s => !s.isChapterHeader)]
+  });
+
+  return [...chapters.slice(0, index), head, tail, ...chapters.slice(index + 1)];
+};
+
+// --- Segment operations ---
+
+// The translation of the old text is dropped; notes are kept but marked stale, as in replaceTranslation
+export const editSegmentText = (chapters: Chapter[], index: number, segmentId: string, text: string): Chapter[] =>
+  updateChapter(chapters, index, chap => ({
+    ...chap,
+    segments: chap.segments.map(s => {
+      if (s.id !== segmentId || s.text === text) return s;
+      return {
+        ...s,
+        text,
+        enText: undefined,
+        zhText: undefined,
+        translatedBy: undefined,
+        levelFlag: undefined,
+        notesStale: s.vocabResult ? true : undefined,
+        status: 'pending'
+      };
+    })
+  }));
+
+// Merging a translated segment with an untranslated one loses the translation (the UI asks first)
+export const mergeDropsTranslation = (chapter: Chapter, segmentId: string): boolean => {
+  const i = chapter.segments.findIndex(s => s.id === segmentId);
+  const a = chapter.segments[i];
+  const b = chapter.segments[i + 1];
+  return !!a && !!b && !!a.enText !== !!b.enText;
+};
+
+// Join a segment with the one after it; the first segment's id survives
+export const mergeSegmentWithNext = (chapters: Chapter[], index: number, segmentId: string): Chapter[] =>
+  updateChapter(chapters, index, chap => {
+    const i = chap.segments.findIndex(s => s.id === segmentId);
+    const a = chap.segments[i];
+    const b = chap.segments[i + 1];
+    if (!a || !b || a.isChapterHeader || b.isChapterHeader) return chap;
+
+    // English source text needs a space at the join; Chinese does not
+    // A half that is translated without the other gives no usable translation: the merged segment goes back to pending
+    const joiner = /[A-Za-z0-9,.!?;:'"]$/.test(a.text) && /^[A-Za-z0-9'"]/.test(b.text) ? ' ' : '';
+    const translated = !!a.enText && !!b.enText;
+    const withNotes = !!a.vocabResult && !!b.vocabResult;
+    const merged: Segment = {
+      ...a,
+      text: a.text + joiner + b.text,
+      enText: translated ? `${a.enText} ${b.enText}` : undefined,
+      zhText: a.zhText && b.zhText ? a.zhText + b.zhText : undefined,
+      vocabResult: withNotes
+        ? { id: a.id, vocab: [...a.vocabResult!.vocab, ...b.vocabResult!.vocab] }
+        : undefined,
+      notesStale: withNotes && (a.notesStale || b.notesStale) || undefined,
+      translatedBy: translated ? joinModels(a.translatedBy, b.translatedBy) : undefined,
+      notesBy: withNotes ? joinModels(a.notesBy, b.notesBy) : undefined,
+      levelFlag: translated ? a.levelFlag || b.levelFlag : undefined,
+      status: a.status === 'done' && b.status === 'done' ? 'done' : 'pending'
+    };
+    return { ...chap, segments: [...chap.segments.slice(0, i), merged, ...chap.segments.slice(i + 2)] };
+  });
+
+// Split the Chinese text at a character offset. The translation can't be split reliably,
+// so both halves go back to untranslated.
+export const splitSegmentAt = (chapters: Chapter[], index: number, segmentId: string, offset: number): Chapter[] => {
+  const newId = nextSegmentId(chapters);
+  return updateChapter(chapters, index, chap => {
+    const i = chap.segments.findIndex(s => s.id === segmentId);
+    const seg = chap.segments[i];
+    if (!seg || seg.isChapterHeader) return chap;
+
+    const before = seg.text.slice(0, offset).trim();
+    const after = seg.text.slice(offset).trim();
+    if (!before || !after) return chap;
+
+    const first: Segment = { id: seg.id, text: before, isChapterHeader: false, status: 'pending' };
+    const second: Segment = { id: newId, text: after, isChapterHeader: false, status: 'pending' };
+    return { ...chap, segments: [...chap.segments.slice(0, i), first, second, ...chap.segments.slice(i + 1)] };
+  });
+};
+
+// Swap in another translation (a chosen alternative). Existing notes are kept but marked
+// stale, and the segment goes back to pending so the next notes run regenerates them.
+export const replaceTranslation = (chapters: Chapter[], index: number, segmentId: string, enText: string, translatedBy?: string): Chapter[] =>
+  updateChapter(chapters, index, chap => ({
+    ...chap,
+    segments: chap.segments.map(s => {
+      if (s.id !== segmentId || s.enText === enText) return s;
+      return { ...s, enText, translatedBy, levelFlag: undefined, notesStale: s.vocabResult ? true : undefined, status: 'pending' };
+    })
+  }));
+
+export const deleteSegment = (chapters: Chapter[], index: number, segmentId: string): Chapter[] =>
+  updateChapter(chapters, index, chap => ({
+    ...chap,
+    segments: chap.segments.filter(s => s.id !== segmentId || s.isChapterHeader)
+  }));
+
+export const insertSegmentAfter = (chapters: Chapter[], index: number, segmentId: string, text: string): Chapter[] => {
+  const newSeg: Segment = { id: nextSegmentId(chapters), text, isChapterHeader: false, status: 'pending' };
+  return updateChapter(chapters, index, chap => {
+    const i = chap.segments.findIndex(s => s.id === segmentId);
+    return { ...chap, segments: [...chap.segments.slice(0, i + 1), newSeg, ...chap.segments.slice(i + 1)] };
+  });
+};
+
+// --- English-source projects ---
+
+// The source text is the English line. Re-sync enText after imports and edits; a segment
+// whose text changed loses its notes and reverse translation.
+export const syncEnglishSource = (chapters: Chapter[]): Chapter[] =>
+  chapters.map(chap => withTranslatedFlag({
+    ...chap,
+    segments: chap.segments.map(s => {
+      if (s.isChapterHeader || s.enText === s.text) return s;
+      return { ...s, enText: s.text, zhText: undefined, vocabResult: undefined, notesBy: undefined, status: 'pending' };
+    })
+  }));
@@ -0,0 +1,118 @@
+import { TextEncodingName } from '../types';
+
+// Encoding sniffing for imported .txt novels (BOM first, then heuristic scoring)
+
+export const SUPPORTED_ENCODINGS: TextEncodingName[] = ['utf-8', 'gb18030', 'big5', 'utf-16le', 'utf-16be', 'shift_jis'];
+
+export const ENCODING_LABELS: Record<TextEncodingName, string> = {
+  'utf-8': 'UTF-8',
+  'gb18030': 'GB18030 / GBK (简体)',
+  'big5': 'Big5 (繁體)',
+  'utf-16le': 'UTF-16 LE',
+  'utf-16be': 'UTF-16 BE',
+  'shift_jis': 'Shift_JIS (日本語)'
+};
+
+export interface EncodingDetection {
+  encoding: TextEncodingName;
+  // 'bom' and 'valid-utf8' are certain; 'heuristic' means the best-scoring guess
+  method: 'bom' | 'valid-utf8' | 'heuristic';
+  scores: { encoding: TextEncodingName; score: number }[];
+}
+
+// Only the head of the file is scored; large novels decode slowly
+const SAMPLE_BYTES = 64 * 1024;
+
+// UTF-16 without a BOM: text files have no NUL bytes, but ASCII in UTF-16 puts one in every
+// other byte. Enough NULs on one side and next to none on the other picks the byte order.
+const UTF16_NUL_SHARE = 0.3;
+const UTF16_OTHER_SIDE_MAX = 0.05;
+
+const detectUtf16ByNuls = (bytes: Uint8Array): TextEncodingName | null => {
+  const pairs = Math.floor(bytes.length / 2);
+  if (pairs === 0) return null;
+  let evenNuls = 0, oddNuls = 0;
+  for (let i = 0; i < pairs * 2; i += 2) {
+    if (bytes[i] === 0) evenNuls++;
+    if (bytes[i + 1] === 0) oddNuls++;
+  }
+  const even = evenNuls / pairs;
+  const odd = oddNuls / pairs;
+  if (odd >= UTF16_NUL_SHARE && even <= UTF16_OTHER_SIDE_MAX) return 'utf-16le'; // 'A' = 41 00
+  if (even >= UTF16_NUL_SHARE && odd <= UTF16_OTHER_SIDE_MAX) return 'utf-16be'; // 'A' = 00 41
+  return null;
+};
+
+// High-frequency characters in Simplified and Traditional Chinese prose.
+// Mis-decoded bytes produce valid but random CJK characters, which rarely land in this set.
+const COMMON_HANZI = new Set(
+  '的一是不了人我在有他这個个们們中来來上大为為和国國地到以说說时時要就出会會可也你对對生能而子那得于於着著下自之年过過发發后後作里裡用道行所然家种種事成方多经經么麼去法学學如都同现現当當没沒动動面起看定天分还還进進好小部其些主样樣理心她本前开開但因只从從想实實眼声聲手头頭话話身己什意走气氣问問笑'
+);
+
+const scoreText = (text: string): number => {
+  if (!text) return -Infinity;
+  let score = 0;
+  for (const ch of text) {
+    const code = ch.charCodeAt(0);
+    if (ch === '�') score -= 20;
+    else if (COMMON_HANZI.has(ch)) score += 3;
+    else if (code >= 0x3040 && code <= 0x30ff) score += 2; // Hiragana / Katakana
+    else if ((code >= 0x3000 && code <= 0x303f) || (code >= 0xff00 && code <= 0xffef)) score += 1; // CJK / full-width punctuation
+    else if (code === 0 || (code < 0x20 && ch !== '\n' && ch !== '\r' && ch !== '\t')) score -= 10;
+    else if (code >= 0xe000 && code <= 0xf8ff) score -= 5; // Private use area
+    else if (code < 0x80) score += 0.5;
+  }
+  return score / text.length;
+};
+
+export const decodeText = (buffer: ArrayBuffer, encoding: TextEncodingName): string => {
+  // TextDecoder strips a matching BOM by default
+  return new TextDecoder(encoding).decode(buffer);
+};
+
+export const detectEncoding = (buffer: ArrayBuffer): EncodingDetection => {
+  const bytes = new Uint8Array(buffer);
+
+  // 1. Byte Order Mark
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { encoding: 'utf-8', method: 'bom', scores: [] };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { encoding: 'utf-16le', method: 'bom', scores: [] };
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { encoding: 'utf-16be', method: 'bom', scores: [] };
+  }
+
+  // 2. BOM-less UTF-16 (mostly ASCII text would also pass as UTF-8, NULs and all)
+  const utf16 = detectUtf16ByNuls(bytes.subarray(0, SAMPLE_BYTES));
+  if (utf16) return { encoding: utf16, method: 'heuristic', scores: [] };
+
+  // 3. Strict UTF-8 (cut the sample on a character boundary so a split sequence doesn't fail it)
+  let sampleEnd = Math.min(bytes.length, SAMPLE_BYTES);
+  if (sampleEnd < bytes.length) {
+    while (sampleEnd > 0 && (bytes[sampleEnd] & 0xc0) === 0x80) sampleEnd--;
+  }
+  const sample = bytes.slice(0, sampleEnd);
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(sample);
+    return { encoding: 'utf-8', method: 'valid-utf8', scores: [] };
+  } catch {
+    // Not UTF-8, fall through to scoring
+  }
+
+  // 4. Heuristic scoring across legacy encodings (even-length sample keeps UTF-16 aligned)
+  const evenSample = sample.slice(0, sample.length - (sample.length % 2));
+  const scores = SUPPORTED_ENCODINGS
+    .filter(enc => enc !== 'utf-8')
+    .map(encoding => {
+      try {
+        return { encoding, score: scoreText(new TextDecoder(encoding).decode(evenSample)) };
+      } catch {
+        return { encoding, score: -Infinity };
+      }
+    })
+    .sort((a, b) => b.score - a.score);
+
+  return { encoding: scores[0].encoding, method: 'heuristic', scores };
+};
@@ -0,0 +1,291 @@
+import { Chapter, Segment } from '../types';
+
+// --- Minimal ZIP reader (EPUB containers are plain ZIP archives) ---
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localOffset: number;
+}
+
+const readZipEntries = (view: DataView): Map<string, ZipEntry> => {
+  // Locate "End of Central Directory" record by scanning backwards (comment may follow it)
+  let eocd = -1;
+  for (let i = view.byteLength - 22; i >= Math.max(0, view.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error("Invalid EPUB: ZIP directory not found");
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder('utf-8');
+  const entries = new Map<string, ZipEntry>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) break;
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLen = view.getUint16(offset + 28, true);
+    const extraLen = view.getUint16(offset + 30, true);
+    const commentLen = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLen));
+
+    entries.set(name, { name, method, compressedSize, localOffset });
+    offset += 46 + nameLen + extraLen + commentLen;
+  }
+
+  return entries;
+};
+
+const readZipFile = async (view: DataView, entry: ZipEntry): Promise<Uint8Array> => {
+  // Local header has its own (possibly different) name/extra lengths
+  const nameLen = view.getUint16(entry.localOffset + 26, true);
+  const extraLen = view.getUint16(entry.localOffset + 28, true);
+  const start = view.byteOffset + entry.localOffset + 30 + nameLen + extraLen;
+  const data = new Uint8Array(view.buffer as ArrayBuffer, start, entry.compressedSize);
+
+  if (entry.method === 0) return data;
+  if (entry.method !== 8) throw new Error(`Unsupported ZIP compression method: ${entry.method}`);
+
+  // Deflate: use the browser's native decompressor
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// --- EPUB structure helpers ---
+
+// Resolve a relative href against the directory of the file that references it
+const resolvePath = (base: string, href: string): string => {
+  const parts = base.split('/').slice(0, -1);
+  decodeURIComponent(href).split('/').forEach(p => {
+    if (p === '..') parts.pop();
+    else if (p && p !== '.') parts.push(p);
+  });
+  return parts.join('/');
+};
+
+const splitHref = (href: string): [string, string] => {
+  const hashIdx = href.indexOf('#');
+  return hashIdx === -1 ? [href, ''] : [href.slice(0, hashIdx), href.slice(hashIdx + 1)];
+};
+
+interface TocEntry {
+  path: string;
+  fragment: string;
+  title: string;
+}
+
+const cleanText = (text: string | null | undefined): string =>
+  (text || '').replace(/[\s　]+/g, ' ').trim();
+
+// EPUB 3 navigation document (<nav epub:type="toc">)
+const parseNavToc = (doc: Document, navPath: string): TocEntry[] => {
+  const navs = Array.from(doc.getElementsByTagName('nav'));
+  const tocNav = navs.find(n => (n.getAttribute('epub:type') || '').includes('toc')) || navs[0];
+  if (!tocNav) return [];
+
+  return Array.from(tocNav.getElementsByTagName('a'))
+    .filter(a => a.getAttribute('href'))
+    .map(a => {
+      const [file, fragment] = splitHref(a.getAttribute('href')!);
+      return { path: resolvePath(navPath, file), fragment, title: cleanText(a.textContent) };
+    });
+};
+
+// EPUB 2 NCX table of contents (navMap > navPoint), flattened in document order
+const parseNcxToc = (doc: Document, ncxPath: string): TocEntry[] => {
+  return Array.from(doc.getElementsByTagName('navPoint'))
+    .map(point => {
+      const label = point.getElementsByTagName('text')[0];
+      const content = point.getElementsByTagName('content')[0];
+      const [file, fragment] = splitHref(content?.getAttribute('src') || '');
+      return { path: resolvePath(ncxPath, file), fragment, title: cleanText(label?.textContent) };
+    })
+    .filter(e => e.path);
+};
+
+const BLOCK_TAGS = new Set(['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'blockquote', 'pre', 'dd', 'dt', 'div', 'section', 'article']);
+
+interface TextBlock {
+  text: string;
+  anchors: string[];
+}
+
+// Text content of a block, treating <br> as a paragraph separator
+const blockText = (node: Node): string => {
+  if (node.nodeType === Node.TEXT_NODE || node.nodeType === Node.CDATA_SECTION_NODE) {
+    // Source line breaks inside markup are just formatting
+    return (node.nodeValue || '').replace(/[\r\n]+/g, ' ');
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+  const tag = (node as Element).localName.toLowerCase();
+  if (tag === 'br') return '\n';
+  if (tag === 'script' || tag === 'style' || tag === 'rt') return '';
+  return Array.from(node.childNodes).map(blockText).join('');
+};
+
+// Strip XHTML down to paragraph-level blocks, remembering which anchor ids appear in each
+const extractBlocks = (body: Element): TextBlock[] => {
+  const blocks: TextBlock[] = [];
+
+  const walk = (el: Element, pendingAnchors: string[]) => {
+    const tag = el.localName.toLowerCase();
+    if (tag === 'script' || tag === 'style') return;
+
+    const hasBlockChild = Array.from(el.children).some(c => BLOCK_TAGS.has(c.localName.toLowerCase()));
+    if (el.id) pendingAnchors.push(el.id);
+
+    if (BLOCK_TAGS.has(tag) && !hasBlockChild) {
+      // Leaf block: collect anchors nested inside (e.g. <p><a id="ch2"/>...</p>)
+      el.querySelectorAll('[id]').forEach(child => pendingAnchors.push(child.id));
+      const lines = blockText(el).split('\n').map(cleanText).filter(Boolean);
+      if (lines.length === 0) return;
+      lines.forEach((line, i) => {
+        blocks.push({ text: line, anchors: i === 0 ? pendingAnchors.splice(0) : [] });
+      });
+      return;
+    }
+
+    Array.from(el.children).forEach(child => walk(child, pendingAnchors));
+  };
+
+  walk(body, []);
+
+  // Fallback for documents that put bare text directly into <body>
+  if (blocks.length === 0) {
+    (body.textContent || '').split(/\n+/).map(cleanText).filter(Boolean)
+      .forEach(text => blocks.push({ text, anchors: [] }));
+  }
+
+  return blocks;
+};
+
+const parseXml = (text: string, type: DOMParserSupportedType = 'application/xml'): Document => {
+  const doc = new DOMParser().parseFromString(text, type);
+  if (doc.getElementsByTagName('parsererror').length > 0 && type !== 'text/html') {
+    // Many EPUBs ship slightly malformed XHTML; the HTML parser is forgiving
+    return new DOMParser().parseFromString(text, 'text/html');
+  }
+  return doc;
+};
+
+export const isEpubFile = (fileName: string): boolean => /\.epub$/i.test(fileName);
+
+export const parseEpub = async (buffer: ArrayBuffer): Promise<Chapter[]> => {
+  const view = new DataView(buffer);
+  const entries = readZipEntries(view);
+  const decoder = new TextDecoder('utf-8');
+
+  const readText = async (path: string): Promise<string | null> => {
+    const entry = entries.get(path);
+    if (!entry) return null;
+    return decoder.decode(await readZipFile(view, entry));
+  };
+
+  // 1. container.xml -> OPF package path
+  const containerXml = await readText('META-INF/container.xml');
+  if (!containerXml) throw new Error("Invalid EPUB: META-INF/container.xml missing");
+  const rootfile = parseXml(containerXml).getElementsByTagName('rootfile')[0];
+  const opfPath = rootfile?.getAttribute('full-path');
+  if (!opfPath) throw new Error("Invalid EPUB: package document not declared");
+
+  const opfXml = await readText(opfPath);
+  if (!opfXml) throw new Error(`Invalid EPUB: ${opfPath} missing`);
+  const opf = parseXml(opfXml);
+
+  // 2. Manifest (id -> item) and spine order
+  const manifest = new Map<string, { path: string; mediaType: string; properties: string }>();
+  Array.from(opf.getElementsByTagName('item')).forEach(item => {
+    const id = item.getAttribute('id');
+    const href = item.getAttribute('href');
+    if (!id || !href) return;
+    manifest.set(id, {
+      path: resolvePath(opfPath, href),
+      mediaType: item.getAttribute('media-type') || '',
+      properties: item.getAttribute('properties') || ''
+    });
+  });
+
+  const spineEl = opf.getElementsByTagName('spine')[0];
+  const spinePaths = Array.from(opf.getElementsByTagName('itemref'))
+    .filter(ref => ref.getAttribute('linear') !== 'no')
+    .map(ref => manifest.get(ref.getAttribute('idref') || '')?.path)
+    .filter((p): p is string => !!p);
+
+  if (spinePaths.length === 0) throw new Error("Invalid EPUB: empty spine");
+
+  // 3. Table of contents: prefer EPUB 3 nav, fall back to NCX
+  let toc: TocEntry[] = [];
+  const navItem = Array.from(manifest.values()).find(i => i.properties.split(/\s+/).includes('nav'));
+  if (navItem) {
+    const navText = await readText(navItem.path);
+    if (navText) toc = parseNavToc(parseXml(navText), navItem.path);
+  }
+  if (toc.length === 0) {
+    const ncxId = spineEl?.getAttribute('toc');
+    const ncxItem = (ncxId && manifest.get(ncxId)) || Array.from(manifest.values()).find(i => i.mediaType === 'application/x-dtbncx+xml');
+    if (ncxItem) {
+      const ncxText = await readText(ncxItem.path);
+      if (ncxText) toc = parseNcxToc(parseXml(ncxText), ncxItem.path);
+    }
+  }
+
+  // 4. Walk spine, starting a new chapter at every TOC entry (file or in-file anchor)
+  const chapters: Chapter[] = [];
+  let globalIdCounter = 0;
+  let currentChap: Chapter | null = null;
+
+  // Archive a chapter only if it has body text (drops title-only pages and duplicate TOC hits)
+  const flush = (chap: Chapter | null) => {
+    if (chap && chap.segments.some(s => !s.isChapterHeader)) chapters.push(chap);
+  };
+
+  const newChapter = (title: string): Chapter => ({
+    title,
+    segments: [{ id: `seg-${globalIdCounter++}`, text: title, isChapterHeader: true, status: 'pending' }],
+    isTranslated: false
+  });
+
+  for (const path of spinePaths) {
+    const xhtml = await readText(path);
+    if (!xhtml) continue;
+    const doc = parseXml(xhtml);
+    const body = doc.getElementsByTagName('body')[0];
+    if (!body) continue;
+
+    const blocks = extractBlocks(body);
+    const fileToc = toc.filter(e => e.path === path);
+    const anchorTitles = new Map(fileToc.filter(e => e.fragment).map(e => [e.fragment, e.title]));
+    const fileTitle = fileToc.find(e => !e.fragment)?.title;
+
+    // Spine items not listed in the TOC continue the previous chapter (e.g. split chapter files)
+    if (fileTitle || !currentChap) {
+      const docTitle = cleanText(doc.getElementsByTagName('title')[0]?.textContent);
+      flush(currentChap);
+      currentChap = newChapter(fileTitle || docTitle || blocks[0]?.text || `Section ${chapters.length + 1}`);
+    }
+
+    for (const block of blocks) {
+      const anchorTitle = block.anchors.map(a => anchorTitles.get(a)).find(Boolean);
+      if (anchorTitle) {
+        flush(currentChap);
+        currentChap = newChapter(anchorTitle);
+      }
+
+      // Skip the heading that merely repeats the chapter title
+      if (currentChap.segments.length === 1 && block.text === cleanText(currentChap.title)) continue;
+
+      const seg: Segment = { id: `seg-${globalIdCounter++}`, text: block.text, isChapterHeader: false, status: 'pending' };
+      currentChap.segments.push(seg);
+    }
+  }
+
+  flush(currentChap);
+
+  return chapters;
+};
@@ -0,0 +1,41 @@
+import { GlossaryEntry } from '../types';
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// {glossary} as sent in prompts: one "source => target" line per entry
+export const formatGlossary = (entries: GlossaryEntry[]): string => {
+  return entries
+    .filter(e => e.source.trim() && e.target.trim())
+    .map(e => `- ${e.source.trim()} => ${e.target.trim()}${e.isProperNoun ? ' (name)' : ''}`)
+    .join('\n');
+};
+
+// Only the entries a chunk actually mentions, so long glossaries don't crowd the prompt
+export const glossaryForSourceTexts = (entries: GlossaryEntry[], texts: string[]): GlossaryEntry[] => {
+  return entries.filter(e => e.source.trim() && texts.some(text => text.includes(e.source.trim())));
+};
+
+export const glossaryForTargetTexts = (entries: GlossaryEntry[], texts: string[]): GlossaryEntry[] => {
+  const lower = texts.map(text => text.toLowerCase());
+  return entries.filter(e => e.target.trim() && lower.some(text => text.includes(e.target.trim().toLowerCase())));
+};
+
+// Blanks out the English renderings of names so their words are not picked as vocabulary
+export const stripGlossaryNames = (text: string, entries: GlossaryEntry[]): string => {
+  return entries
+    .filter(e => e.isProperNoun && e.target.trim())
+    .reduce((acc, e) => acc.replace(new RegExp(`\\b${escapeRegExp(e.target.trim())}\\b`, 'gi'), ' '), text);
+};
+
+// Adds extracted entries whose source term is not in the glossary yet
+export const mergeGlossary = (existing: GlossaryEntry[], extracted: GlossaryEntry[]): GlossaryEntry[] => {
+  const known = new Set(existing.map(e => e.source.trim()));
+  const added: GlossaryEntry[] = [];
+  extracted.forEach(e => {
+    const source = e.source.trim();
+    if (!source || !e.target.trim() || known.has(source)) return;
+    known.add(source);
+    added.push({ ...e, source });
+  });
+  return [...existing, ...added];
+};
@@ -0,0 +1,103 @@
+import { Chapter, JobQueue, QueueJob } from '../types';
+
+// Whole-book job queue: which chapter to work on next and the bookkeeping after it.
+// The queue is plain data (persisted in localStorage); App runs it.
+
+export const emptyQueue = (fileName: string): JobQueue => ({ fileName, jobs: [], paused: false, concurrency: 1 });
+
+export const createQueueJob = (kind: QueueJob['kind'], chapterIndices: number[]): QueueJob => ({
+  id: `job-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  kind,
+  chapterIndices,
+  completed: [],
+  failed: 0,
+  status: 'queued'
+});
+
+const taskKey = (jobId: string, chapter: number) => `${jobId}:${chapter}`;
+
+// Jobs run in order: the first queued job hands out its chapters (at most `limit` in flight),
+// and the next job waits until it has finished, so notes queued after a translation see its results
+export const nextQueueTask = (
+  queue: JobQueue,
+  inFlight: Set<string>,
+  limit: (job: QueueJob) => number
+): { job: QueueJob, chapter: number, key: string } | null => {
+  if (queue.paused) return null;
+  const job = queue.jobs.find(j => j.status === 'queued');
+  if (!job) return null;
+
+  const running = job.chapterIndices.filter(i => inFlight.has(taskKey(job.id, i))).length;
+  if (running >= limit(job)) return null;
+  const chapter = job.chapterIndices.find(i => !job.completed.includes(i) && !inFlight.has(taskKey(job.id, i)));
+  return chapter === undefined ? null : { job, chapter, key: taskKey(job.id, chapter) };
+};
+
+const updateJob = (queue: JobQueue, jobId: string, change: (job: QueueJob) => QueueJob): JobQueue => ({
+  ...queue,
+  jobs: queue.jobs.map(job => job.id === jobId ? change(job) : job)
+});
+
+export const completeQueueChapter = (queue: JobQueue, jobId: string, chapter: number, failed: number): JobQueue =>
+  updateJob(queue, jobId, job => {
+    const completed = job.completed.includes(chapter) ? job.completed : [...job.completed, chapter];
+    const finished = job.chapterIndices.every(i => completed.includes(i));
+    return { ...job, completed, failed: job.failed + failed, status: finished ? 'done' : job.status };
+  });
+
+export const failQueueJob = (queue: JobQueue, jobId: string, error: string): JobQueue =>
+  updateJob(queue, jobId, job => ({ ...job, status: 'failed', error }));
+
+// Jobs hold chapter indices, which merging or splitting chapters shifts. A chapter is followed
+// through its segment ids: a merged chapter maps to one index, a split one to both parts.
+// A chapter counts as completed only if everything it was made from was; jobs left with no
+// chapters are dropped.
+export const rebaseQueue = (queue: JobQueue, before: Chapter[], after: Chapter[]): JobQueue => {
+  const chapterOf = new Map<string, number>();
+  after.forEach((chapter, i) => chapter.segments.forEach(seg => chapterOf.set(seg.id, i)));
+  const mapIndex = (index: number): number[] => {
+    const targets = new Set<number>();
+    before[index]?.segments.forEach(seg => {
+      const target = chapterOf.get(seg.id);
+      if (target !== undefined) targets.add(target);
+    });
+    return Array.from(targets);
+  };
+
+  const jobs = queue.jobs.flatMap(job => {
+    const sources = new Map<number, number[]>(); // New index -> old indices mapped onto it
+    job.chapterIndices.forEach(index => mapIndex(index).forEach(target => {
+      sources.set(target, [...(sources.get(target) || []), index]);
+    }));
+    if (sources.size === 0) return [];
+
+    const chapterIndices = Array.from(sources.keys()).sort((a, b) => a - b);
+    const completed = chapterIndices.filter(target => sources.get(target)!.every(index => job.completed.includes(index)));
+    const status = job.status === 'queued' && completed.length === chapterIndices.length ? 'done' : job.status;
+    return [{ ...job, chapterIndices, completed, status }];
+  });
+  return { ...queue, jobs };
+};
+
+// Put a failed job back in line (its finished chapters are kept)
+export const retryQueueJob = (queue: JobQueue, jobId: string): JobQueue =>
+  updateJob(queue, jobId, job => ({ ...job, status: 'queued', error: undefined }));
+
+// Chapters done / total over the jobs still to run
+export const queueProgress = (queue: JobQueue): { done: number, total: number } => {
+  const active = queue.jobs.filter(job => job.status === 'queued');
+  return {
+    done: active.reduce((sum, job) => sum + job.completed.length, 0),
+    total: active.reduce((sum, job) => sum + job.chapterIndices.length, 0)
+  };
+};
+
+// A reload mid-job leaves segments marked as in progress; nothing is running at load time,
+// so they go back to pending and the next run picks them up
+export const resetInterruptedStatuses = (chapters: Chapter[]): Chapter[] =>
+  chapters.map(chapter => ({
+    ...chapter,
+    segments: chapter.segments.map(seg =>
+      (seg.status === 'translating' && !seg.enText) || seg.status === 'processing' ? { ...seg, status: 'pending' } : seg
+    )
+  }));
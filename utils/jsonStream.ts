@@ -0,0 +1,81 @@
+// Incremental parser for streamed JSON arrays.
+// Feed it text as it arrives; every element of the first array in the stream is returned as
+// soon as its closing bracket/quote has been seen. Leading prose or ```json fences are skipped,
+// and an array wrapped in an object ({"items": [...]}) works too.
+export class JsonArrayStreamParser {
+  private buffer = '';
+  private pos = 0;
+  private arrayStarted = false;
+  private arrayEnded = false;
+  private depth = 0; // Nesting depth inside the array (0 = between elements)
+  private inString = false;
+  private escaped = false;
+  private elementStart = -1;
+  private count = 0;
+
+  get itemCount(): number {
+    return this.count;
+  }
+
+  feed(chunk: string): any[] {
+    this.buffer += chunk;
+    const items: any[] = [];
+
+    while (this.pos < this.buffer.length && !this.arrayEnded) {
+      const ch = this.buffer[this.pos];
+
+      if (!this.arrayStarted) {
+        if (ch === '[') this.arrayStarted = true;
+        this.pos++;
+        continue;
+      }
+
+      if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (ch === '\\') this.escaped = true;
+        else if (ch === '"') {
+          this.inString = false;
+          if (this.depth === 0) this.emit(this.pos + 1, items);
+        }
+        this.pos++;
+        continue;
+      }
+
+      if (ch === '"') {
+        if (this.depth === 0) this.elementStart = this.pos;
+        this.inString = true;
+      } else if (ch === '{' || ch === '[') {
+        if (this.depth === 0) this.elementStart = this.pos;
+        this.depth++;
+      } else if (ch === '}' || ch === ']') {
+        if (this.depth === 0) {
+          // Closing bracket of the array itself; flush a trailing bare value (number/true/null)
+          this.emit(this.pos, items);
+          this.arrayEnded = true;
+        } else {
+          this.depth--;
+          if (this.depth === 0) this.emit(this.pos + 1, items);
+        }
+      } else if (this.depth === 0) {
+        if (ch === ',') this.emit(this.pos, items);
+        else if (!/\s/.test(ch) && this.elementStart < 0) this.elementStart = this.pos;
+      }
+      this.pos++;
+    }
+
+    return items;
+  }
+
+  private emit(end: number, items: any[]) {
+    if (this.elementStart < 0) return;
+    const raw = this.buffer.slice(this.elementStart, end).trim();
+    this.elementStart = -1;
+    if (!raw) return;
+    try {
+      items.push(JSON.parse(raw));
+      this.count++;
+    } catch {
+      // Malformed element; the final full-response parse decides what to do with it
+    }
+  }
+}
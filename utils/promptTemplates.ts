@@ -0,0 +1,40 @@
+import { GlossaryEntry, PromptKind, PromptTemplate, Segment, VocabDB } from '../types';
+import { DEFAULT_PROMPT_TEMPLATES, PROMPT_VARIABLES } from '../constants';
+import { analyzeTextForVocab } from './textProcessing';
+
+export type PromptVariables = Partial<Record<typeof PROMPT_VARIABLES[number], string>>;
+
+// Replaces {segments}, {payload}, {targetLevel}, {glossary} and {context}; any other braces
+// (e.g. the JSON example in the notes prompt) are left as written
+export const renderPrompt = (body: string, variables: PromptVariables): string => {
+  return body.replace(/\{(\w+)\}/g, (match, name: string) => {
+    if (!(PROMPT_VARIABLES as readonly string[]).includes(name)) return match;
+    const value = variables[name as keyof PromptVariables];
+    return value === undefined || value === '' ? '(none)' : value;
+  });
+};
+
+export const defaultTemplateFor = (kind: PromptKind): PromptTemplate =>
+  DEFAULT_PROMPT_TEMPLATES.find(tpl => tpl.kind === kind)!;
+
+// The project's active template, falling back to the built-in one when the id is unknown
+// (e.g. a project exported from another browser)
+export const resolveTemplate = (templates: PromptTemplate[], activeId: string | undefined, kind: PromptKind): PromptTemplate => {
+  return templates.find(tpl => tpl.id === activeId && tpl.kind === kind)
+    || templates.find(tpl => tpl.kind === kind && tpl.isBuiltin)
+    || defaultTemplateFor(kind);
+};
+
+// Built-in templates missing from saved settings (older versions) are added back
+export const withBuiltinTemplates = (templates: PromptTemplate[] | undefined): PromptTemplate[] => {
+  const list = templates || [];
+  const missing = DEFAULT_PROMPT_TEMPLATES.filter(def => !list.some(tpl => tpl.id === def.id));
+  return [...missing, ...list];
+};
+
+// One entry of the notes {payload}
+export const notesPayloadItem = (segment: Segment, vocabDB: VocabDB, glossary: GlossaryEntry[] = []) => ({
+  id: segment.id,
+  en: segment.enText || '',
+  focus_words: analyzeTextForVocab(segment.enText || '', vocabDB, glossary).map(t => t.word)
+});
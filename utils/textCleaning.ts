@@ -0,0 +1,127 @@
+import { ChapterRule, CleaningOptions, CleaningReport } from '../types';
+import { compileChapterRules } from './textProcessing';
+
+// Noise cleaning for aggregated web-novel .txt files, run between decoding and parseNovel
+
+const ZERO_WIDTH = /[\u200B-\u200D\u2060\uFEFF\u00AD]/g;
+// A scheme or www. prefix marks a URL in any case. Bare domains must be lowercase and stand
+// alone (nothing word-like on either side), so "Mr.Top" or "foo.community" are left intact.
+const URL_PATTERN = /(?:[hH][tT]{2}[pP][sS]?:\/\/|[wW]{3}\.)[^\s　，。！？、）)」』】]+|(?<![A-Za-z0-9.-])[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|net|org|cc|la|info|tw|cn|xyz|top|vip)(?![A-Za-z0-9-])(?:\/[^\s　，。]*)?/g;
+
+// Common aggregator/piracy phrases. Lines longer than AD_LINE_MAX are left alone
+// so that a real paragraph is never dropped for containing one of these words.
+const AD_PATTERNS: RegExp[] = [
+  /(?:请|請)?(?:记住|記住|收藏).{0,20}(?:网址|網址|域名|书签|書籤)/,
+  /(?:天才)?一秒(?:记住|記住)/,
+  /(?:手机|手機)(?:版)?(?:阅读|閱讀|用户|用戶)/,
+  /(?:最新|最快|全文)(?:章节|章節).{0,12}(?:请|請|尽在|盡在|访问|訪問|搜索|阅读|閱讀)/,
+  /(?:求|投|跪求).{0,4}(?:推荐票|推薦票|月票|收藏|订阅|訂閱)/,
+  /(?:笔趣阁|筆趣閣|顶点小说|頂點小說|八一中文|飘天文学|飄天文學|起点中文|起點中文|UU看书|uu看書)/i,
+  /(?:本书由|本書由).{0,20}(?:首发|首發|整理|提供|制作|製作)/,
+  /(?:txt|TXT|电子书|電子書).{0,6}(?:下载|下載)/,
+  /(?:广告|廣告|推广|推廣)(?:位|招租)/
+];
+const AD_LINE_MAX = 60;
+
+const UNFINISHED_FOOTER = /^[（(【\[]?\s*(?:本章未完|未完待续|未完待續|本章完|本章结束|本章結束|请点击下一页|請點擊下一頁)[^\n]{0,30}$/;
+
+const normalizeHeading = (line: string) => line.replace(/[\s　]+/g, '');
+
+export const cleanNovelText = (
+  text: string,
+  options: CleaningOptions,
+  chapterRules: ChapterRule[]
+): { text: string, report: CleaningReport } => {
+  const { builtin } = options;
+  const report: CleaningReport = { removedLines: [], removedChars: {} };
+  const countChars = (rule: string, n: number) => {
+    if (n > 0) report.removedChars[rule] = (report.removedChars[rule] || 0) + n;
+  };
+
+  const customMatchers: { rule: string, re: RegExp }[] = [];
+  options.customRules.filter(r => r.enabled && r.pattern.trim()).forEach(rule => {
+    try {
+      customMatchers.push({ rule: rule.name || rule.id, re: new RegExp(rule.pattern, 'i') });
+    } catch {
+      // Invalid patterns are flagged in the editor and skipped here
+    }
+  });
+
+  const { matchers: headingMatchers } = compileChapterRules(chapterRules);
+  let lastHeading: string | null = null;
+  let bodySinceHeading = false;
+
+  const output: string[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, idx) => {
+    let line = rawLine;
+    const drop = (rule: string) => report.removedLines.push({ line: idx + 1, text: rawLine.trim(), rule });
+
+    // 1. Character-level cleanup on every line
+    if (builtin.zeroWidth) {
+      const before = line.length;
+      line = line.replace(ZERO_WIDTH, '');
+      countChars('zeroWidth', before - line.length);
+    }
+    if (builtin.whitespaceRuns) {
+      const before = line.length;
+      // Keep paragraph indentation (sentence-mode relies on it) but collapse runs inside the line
+      const indent = /^[\s　]+/.test(line) && line.trim() ? '　　' : '';
+      line = indent + line.trim().replace(/[ \t　]{2,}/g, ' ');
+      countChars('whitespaceRuns', Math.max(0, before - line.length));
+    }
+
+    const clean = line.trim();
+    if (!clean) {
+      output.push('');
+      return;
+    }
+
+    // 2. Line-level rules
+    if (builtin.urlLines) {
+      const withoutUrls = clean.replace(URL_PATTERN, '').trim();
+      // Lines without a URL pass through untouched (short dialogue, scene breaks)
+      if (withoutUrls.length !== clean.length) {
+        if (withoutUrls.replace(/[\p{P}\p{S}\s]/gu, '').length < 2) {
+          drop('urlLines');
+          return;
+        }
+        countChars('urlLines', clean.length - withoutUrls.length);
+        line = line.replace(URL_PATTERN, '').replace(/(\S)[ 　]{2,}/g, '$1 ');
+      }
+    }
+
+    if (builtin.adPhrases && clean.length <= AD_LINE_MAX && AD_PATTERNS.some(re => re.test(clean))) {
+      drop('adPhrases');
+      return;
+    }
+
+    if (builtin.unfinishedFooters && UNFINISHED_FOOTER.test(clean)) {
+      drop('unfinishedFooters');
+      return;
+    }
+
+    const custom = customMatchers.find(m => m.re.test(clean));
+    if (custom) {
+      drop(custom.rule);
+      return;
+    }
+
+    // 3. Repeated chapter titles: the same heading again before any body text
+    if (headingMatchers.some(re => re.test(clean))) {
+      const normalized = normalizeHeading(clean);
+      if (builtin.duplicateHeadings && !bodySinceHeading && normalized === lastHeading) {
+        drop('duplicateHeadings');
+        return;
+      }
+      lastHeading = normalized;
+      bodySinceHeading = false;
+    } else {
+      bodySinceHeading = true;
+    }
+
+    output.push(line);
+  });
+
+  return { text: output.join('\n'), report };
+};
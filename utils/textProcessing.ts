@@ -1,6 +1,7 @@
 
-import { Chapter, VocabDB, TargetWord } from '../types';
-import { IRREGULAR_VERBS } from '../constants';
+import { Chapter, ChapterRule, DifficultyScore, GlossaryEntry, ImportPart, LevelScore, SegmentationOptions, SourceLanguage, VocabDB, TargetWord } from '../types';
+import { IRREGULAR_VERBS, CHAPTER_RULE_PRESETS, DEFAULT_SEGMENTATION } from '../constants';
+import { stripGlossaryNames } from './glossary';
 
 // Helper: Convert Chinese numbers to Arabic (e.g. 一百二十三 -> 123)
 const chineseToNumber = (cn: string): string => {
@@ -37,33 +38,168 @@ const chineseToNumber = (cn: string): string => {
   return result.toString();
 };
 
-export const parseNovel = (text: string): Chapter[] => {
+// Compile enabled chapter rules; invalid user patterns are reported instead of thrown
+export const compileChapterRules = (rules: ChapterRule[]): { matchers: RegExp[], errors: Record<string, string> } => {
+  const matchers: RegExp[] = [];
+  const errors: Record<string, string> = {};
+
+  rules.filter(r => r.enabled && r.pattern.trim()).forEach(rule => {
+    try {
+      matchers.push(new RegExp(rule.pattern, 'i'));
+    } catch (e) {
+      errors[rule.id] = (e as Error).message;
+    }
+  });
+
+  return { matchers, errors };
+};
+
+// Sentence-mode helpers
+const SENTENCE_TERMINALS = '。！？!?…';
+const QUOTE_OPEN = '「『“';
+const QUOTE_CLOSE = '」』”';
+
+const quoteDepth = (text: string): number => {
+  let depth = 0;
+  for (const ch of text) {
+    if (QUOTE_OPEN.includes(ch)) depth++;
+    else if (QUOTE_CLOSE.includes(ch)) depth = Math.max(0, depth - 1);
+  }
+  return depth;
+};
+
+// A hard-wrapped line continues the paragraph unless it is indented or the paragraph
+// already ends a sentence outside of an open quote
+const startsNewParagraph = (rawLine: string, paragraph: string): boolean => {
+  if (/^(?:[ \t]{2,}|[　\t])/.test(rawLine)) return true;
+  if (quoteDepth(paragraph) > 0) return false;
+  return /[。！？!?…」』”.]$/.test(paragraph);
+};
+
+// Split text into sentences at Chinese terminal punctuation, never inside dialogue quotes
+const splitSentences = (text: string): string[] => {
+  const sentences: string[] = [];
+  let buf = '';
+  let depth = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    buf += ch;
+    if (QUOTE_OPEN.includes(ch)) depth++;
+    else if (QUOTE_CLOSE.includes(ch)) depth = Math.max(0, depth - 1);
+
+    const endsQuotedSentence = QUOTE_CLOSE.includes(ch) && depth === 0 && SENTENCE_TERMINALS.includes(text[i - 1] || '');
+    // English full stops only count when followed by a space (keeps "3.14" and "e.g.," intact)
+    const endsEnglishSentence = ch === '.' && /\s/.test(text[i + 1] || '');
+    if (depth === 0 && (SENTENCE_TERMINALS.includes(ch) || endsQuotedSentence || endsEnglishSentence)) {
+      // Absorb trailing punctuation such as "！？" or "。」"
+      while (i + 1 < text.length && (SENTENCE_TERMINALS + QUOTE_CLOSE).includes(text[i + 1])) {
+        buf += text[++i];
+      }
+      sentences.push(buf);
+      buf = '';
+    }
+  }
+  if (buf.trim()) sentences.push(buf);
+
+  return sentences;
+};
+
+// Guess whether imported text is Chinese or English from the share of CJK characters
+export const detectSourceLanguage = (text: string): SourceLanguage => {
+  const sample = text.slice(0, 20000);
+  const cjk = (sample.match(/[\u4e00-\u9fff]/g) || []).length;
+  const latin = (sample.match(/[A-Za-z]/g) || []).length;
+  // One hanzi carries roughly as much text as a five-letter word
+  return latin > cjk * 5 ? 'en' : 'zh';
+};
+
+// Pack sentences greedily into chunks of at most maxLength (a single longer sentence stays whole)
+export const splitParagraph = (text: string, maxLength: number): string[] => {
+  if (text.length <= maxLength) return [text];
+
+  const chunks: string[] = [];
+  let current = '';
+  splitSentences(text).forEach(sentence => {
+    if (current && current.length + sentence.length > maxLength) {
+      chunks.push(current.trim());
+      current = '';
+    }
+    current += sentence;
+  });
+  if (current.trim()) chunks.push(current.trim());
+
+  return chunks;
+};
+
+// Volume headings (第一卷 / Vol.2 / Book 3) open a parent level instead of a chapter,
+// unless the same line also carries a chapter marker ("第一卷 第三章 ...")
+const VOLUME_HEADING = /^\s*(?:第[0-9零一二三四五六七八九十百千]+[卷部]|(?:Vol(?:ume)?|Book)\s*\.?\s*[\dIVX]+)/i;
+const CHAPTER_MARKER = /第[0-9零一二三四五六七八九十百千]+[章回節节话話]|Chapter\s*\.?\s*\d/i;
+
+export const parseNovel = (
+  text: string,
+  rules: ChapterRule[] = CHAPTER_RULE_PRESETS,
+  segmentation: SegmentationOptions = DEFAULT_SEGMENTATION
+): Chapter[] => {
   // Normalize line endings
   const lines = text.split(/\r?\n/);
   
-  // Enhanced Chapter Regex
-  // Matches: 
-  // - Chinese: 第x章, 第x卷, etc.
-  // - English: Chapter 1, Chapter.1, Chapter. 1, Part 1, Vol.1, Book 1
-  // - Special: Prologue, Epilogue, Introduction, etc.
-  const chapterRegex = /^\s*(?:第[0-9零一二三四五六七八九十百千]+[章卷回節篇]|(?:Chapter|Part|Vol|Book)\s*\.?\s*[\dIVX]+|序[章言]?|楔子|番外|后记|後記|尾声|尾聲|Introduction|Prologue|Epilogue)/i;
+  // Chapter headings are detected by the project's rule set (see CHAPTER_RULE_PRESETS)
+  const { matchers } = compileChapterRules(rules);
+  const isChapterHeading = (line: string) => matchers.some(re => re.test(line));
+  const isSentenceMode = segmentation.mode === 'sentence';
 
   const chapters: Chapter[] = [];
   let currentChap: Chapter = { title: "Start", segments: [], isTranslated: false };
   let globalIdCounter = 0;
+  let paragraph = '';
+  let currentVolume: string | undefined;
+  // Text between a volume heading and its first chapter is kept only if it has body segments
+  let isVolumeIntro = false;
+
+  const archiveChapter = () => {
+    const keep = isVolumeIntro
+      ? currentChap.segments.some(s => !s.isChapterHeader)
+      : currentChap.segments.length > 0 || currentChap.title !== "Start";
+    if (keep) chapters.push(currentChap);
+  };
+
+  const pushContent = (content: string) => {
+    currentChap.segments.push({
+      id: `seg-${globalIdCounter++}`,
+      text: content,
+      isChapterHeader: false,
+      status: 'pending'
+    });
+  };
+
+  const flushParagraph = () => {
+    if (paragraph) splitParagraph(paragraph, segmentation.maxLength).forEach(pushContent);
+    paragraph = '';
+  };
 
   lines.forEach(line => {
     const clean = line.trim();
-    if (!clean) return;
+    if (!clean) {
+      // Blank lines always end a paragraph
+      flushParagraph();
+      return;
+    }
+
+    if (isChapterHeading(clean)) {
+      flushParagraph();
+
+      const volumePrefix = clean.match(VOLUME_HEADING)?.[0];
+      const isVolumeOnly = !!volumePrefix && !CHAPTER_MARKER.test(clean.slice(volumePrefix.length));
+      if (volumePrefix) currentVolume = isVolumeOnly ? clean : volumePrefix.trim();
 
-    if (chapterRegex.test(clean)) {
       // Archive current chapter if it has content or is not the initial dummy
-      if (currentChap.segments.length > 0 || currentChap.title !== "Start") {
-        chapters.push(currentChap);
-      }
+      archiveChapter();
       
       // Start new chapter
-      currentChap = { title: clean, segments: [], isTranslated: false };
+      currentChap = { title: clean, segments: [], isTranslated: false, volume: currentVolume };
+      isVolumeIntro = isVolumeOnly;
       
       // Add title as a header segment
       currentChap.segments.push({
@@ -72,26 +208,86 @@ export const parseNovel = (text: string): Chapter[] => {
         isChapterHeader: true,
         status: 'pending'
       });
+    } else if (isSentenceMode) {
+      // Content segment - rejoin wrapped lines into paragraphs
+      if (paragraph && startsNewParagraph(line, paragraph)) flushParagraph();
+      const needsSpace = /[A-Za-z0-9,]$/.test(paragraph) && /^[A-Za-z0-9]/.test(clean);
+      paragraph += (needsSpace ? ' ' : '') + clean;
     } else {
       // Content segment - No merging, strict line-by-line
-      currentChap.segments.push({
-        id: `seg-${globalIdCounter++}`,
-        text: clean,
-        isChapterHeader: false,
-        status: 'pending'
-      });
+      pushContent(clean);
     }
   });
 
+  flushParagraph();
+
   // Push last chapter
   if (currentChap.segments.length > 0) {
-    chapters.push(currentChap);
+    archiveChapter();
   }
 
   return chapters;
 };
 
-export const formatChapterTitle = (title: string): string => {
+// Parse each imported file on its own and join the chapters into one project.
+// A file without a heading at the top becomes a chapter titled with its name.
+export const parseNovelParts = (
+  parts: ImportPart[],
+  rules: ChapterRule[] = CHAPTER_RULE_PRESETS,
+  segmentation: SegmentationOptions = DEFAULT_SEGMENTATION
+): Chapter[] => {
+  const chapters = parts.flatMap(part => {
+    const parsed = parseNovel(part.text, rules, segmentation);
+    const first = parsed[0];
+    if (part.name && first && first.title === "Start") {
+      parsed[0] = {
+        ...first,
+        title: part.name,
+        segments: [{ id: '', text: part.name, isChapterHeader: true, status: 'pending' }, ...first.segments]
+      };
+    }
+    return parsed;
+  });
+
+  // Renumber so ids stay unique across files
+  let globalIdCounter = 0;
+  return chapters.map(chap => ({
+    ...chap,
+    segments: chap.segments.map(s => ({ ...s, id: `seg-${globalIdCounter++}` }))
+  }));
+};
+
+// Chapter number in a file name ("第12章.txt", "ch_012.txt", "novel-12.txt"), or null
+export const chapterNumberFromFileName = (fileName: string): number | null => {
+  const base = fileName.replace(/\.[^.]+$/, '');
+  const cnMatch = base.match(/第\s*([0-9零〇一二两三四五六七八九十百千]+)\s*[章回節节话話集]/);
+  if (cnMatch) return parseInt(chineseToNumber(cnMatch[1]));
+  const enMatch = base.match(/(?:chapter|chap|ch|episode|ep)[\s._-]*(\d+)/i);
+  if (enMatch) return parseInt(enMatch[1]);
+  const digits = base.match(/\d+/g);
+  return digits ? parseInt(digits[digits.length - 1]) : null;
+};
+
+export const formatVolumeTitle = (title: string): string => {
+  const cnMatch = title.match(/^第\s*([0-9零一二三四五六七八九十百千]+)\s*[卷部]/);
+  if (cnMatch) return `Volume ${chineseToNumber(cnMatch[1])}`;
+
+  const enMatch = title.match(/^(?:Vol(?:ume)?|Book)\s*\.?\s*([\dIVX]+)/i);
+  if (enMatch) return `Volume ${enMatch[1].toUpperCase()}`;
+
+  return title;
+};
+
+// Optional volume prefix renders as "Volume 1 · Chapter 3"
+export const formatChapterTitle = (title: string, volume?: string): string => {
+  if (volume) {
+    // A volume's own intro section prints just the volume
+    if (title === volume) return formatVolumeTitle(volume);
+    // Combined headings ("第三卷 第四章") carry the volume prefix in the chapter title
+    const chapterPart = title.startsWith(volume) ? title.slice(volume.length).trim() || title : title;
+    return `${formatVolumeTitle(volume)} · ${formatChapterTitle(chapterPart)}`;
+  }
+
   // 1. Check for standard "Chapter X" pattern already in English
   if (/^Chapter\s*\.?\s*(\d+)/i.test(title)) {
     // Normalise
@@ -157,24 +353,47 @@ export const getWordLevel = (word: string, vocabDB: VocabDB): number => {
   return 99; // Hard/Out
 };
 
-export const analyzeTextForVocab = (text: string, vocabDB: VocabDB): TargetWord[] => {
-  const words: string[] = text.match(/\b[a-zA-Z]+\b/g) || [];
+// The words of a text that count for vocabulary purposes, with their levels. Glossary names
+// (proper nouns) are removed first; other names (capitalized words not in the word list) and
+// words too short to look up are skipped.
+const countedWordLevels = (text: string, vocabDB: VocabDB, glossary: GlossaryEntry[]): TargetWord[] => {
+  const words: string[] = stripGlossaryNames(text, glossary).match(/\b[a-zA-Z]+\b/g) || [];
+  return words.flatMap(w => {
+    const level = getWordLevel(w, vocabDB);
+    const isCapitalized = w[0] === w[0].toUpperCase() && w[0] !== w[0].toLowerCase();
+    return level === 0 || (level === 99 && isCapitalized) ? [] : [{ word: w, level }];
+  });
+};
+
+export const analyzeTextForVocab = (text: string, vocabDB: VocabDB, glossary: GlossaryEntry[] = []): TargetWord[] => {
   const targetWords: TargetWord[] = [];
   const uniqueCheck = new Set<string>();
 
-  words.forEach(w => {
-    const lowerW = w.toLowerCase();
-    const level = getWordLevel(lowerW, vocabDB);
-    const isCapitalized = w[0] === w[0].toUpperCase() && w[0] !== w[0].toLowerCase();
-    
-    // Skip names (capitalized words not in dictionary)
-    if (level === 99 && isCapitalized) return;
-
-    if ((level >= 3 || level === 99) && !uniqueCheck.has(lowerW)) {
-      targetWords.push({ word: w, level: level });
+  countedWordLevels(text, vocabDB, glossary).forEach(({ word, level }) => {
+    const lowerW = word.toLowerCase();
+    if (level >= 3 && !uniqueCheck.has(lowerW)) {
+      targetWords.push({ word, level });
       uniqueCheck.add(lowerW);
     }
   });
 
   return targetWords;
 };
+
+// Graded-reader check: share of words above targetLevel (unlisted words count as 99).
+// Names are left out the same way as for focus words.
+export const scoreTextLevel = (text: string, targetLevel: number, vocabDB: VocabDB, glossary: GlossaryEntry[] = []): LevelScore => {
+  const words = countedWordLevels(text, vocabDB, glossary);
+  const over = words.filter(w => w.level > targetLevel);
+  const hard = new Set(over.map(w => w.word.toLowerCase()));
+  return { ratio: words.length > 0 ? over.length / words.length : 0, words: Array.from(hard) };
+};
+
+// Average vocabulary level of a translation, for comparing alternatives. Off-list words
+// count as level 7; names are left out as for focus words.
+export const scoreDifficulty = (text: string, vocabDB: VocabDB, glossary: GlossaryEntry[] = []): DifficultyScore => {
+  const words = countedWordLevels(text, vocabDB, glossary);
+  const total = words.reduce((sum, w) => sum + (w.level === 99 ? 7 : w.level), 0);
+  const offList = new Set(words.filter(w => w.level === 99).map(w => w.word.toLowerCase()));
+  return { average: words.length > 0 ? total / words.length : 0, offList: Array.from(offList) };
+};
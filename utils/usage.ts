@@ -0,0 +1,120 @@
+import { ModelPrice, UsageJob, UsageRecord } from '../types';
+import { estimateTokens } from './batching';
+
+// Token and cost accounting for the usage panel and the pre-job estimate
+
+// Expected output size when estimating a job before it runs
+const TRANSLATION_OUTPUT_RATIO = 1; // Output tokens per source token
+const NOTES_OUTPUT_TOKENS_PER_SEGMENT = 250;
+
+export interface UsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  calls: number;
+  cost: number; // USD, priced models only
+  unpriced: boolean; // Some tokens belong to a model missing from the price table
+}
+
+const emptyTotals = (): UsageTotals => ({ promptTokens: 0, completionTokens: 0, calls: 0, cost: 0, unpriced: false });
+
+// Exact name first, then the longest prefix
+export const priceFor = (model: string, prices: ModelPrice[]): ModelPrice | undefined => {
+  const exact = prices.find(p => p.model === model);
+  if (exact) return exact;
+  return prices
+    .filter(p => p.model && model.startsWith(p.model))
+    .sort((a, b) => b.model.length - a.model.length)[0];
+};
+
+// null when the model has no price
+export const costOf = (model: string, promptTokens: number, completionTokens: number, prices: ModelPrice[]): number | null => {
+  const price = priceFor(model, prices);
+  if (!price) return null;
+  return (promptTokens * price.inputPerMillion + completionTokens * price.outputPerMillion) / 1_000_000;
+};
+
+// Folds one request into the ledger (one record per chapter, job and model)
+export const addUsage = (
+  records: UsageRecord[],
+  sample: { chapter?: string; job: UsageJob; model: string; promptTokens: number; completionTokens: number; calls?: number }
+): UsageRecord[] => {
+  const calls = sample.calls ?? 1;
+  const index = records.findIndex(r => r.chapter === sample.chapter && r.job === sample.job && r.model === sample.model);
+  if (index === -1) {
+    const { chapter, job, model, promptTokens, completionTokens } = sample;
+    return [...records, { chapter, job, model, promptTokens, completionTokens, calls }];
+  }
+  const next = [...records];
+  const record = next[index];
+  next[index] = {
+    ...record,
+    promptTokens: record.promptTokens + sample.promptTokens,
+    completionTokens: record.completionTokens + sample.completionTokens,
+    calls: record.calls + calls
+  };
+  return next;
+};
+
+// A request covering several chapters (a notes batch) is charged to each in proportion to its
+// items; the call itself is counted once, for the chapter with the most items
+export const splitByChapter = <T extends { promptTokens: number; completionTokens: number }>(
+  sample: T,
+  itemChapters: string[]
+): (T & { chapter?: string; calls: number })[] => {
+  if (itemChapters.length === 0) return [{ ...sample, chapter: undefined, calls: 1 }];
+  const counts = new Map<string, number>();
+  itemChapters.forEach(chapter => counts.set(chapter, (counts.get(chapter) || 0) + 1));
+  const largest = Math.max(...Array.from(counts.values()));
+  let billed = false;
+  return Array.from(counts.entries()).map(([chapter, count]) => {
+    const share = count / itemChapters.length;
+    const calls = !billed && count === largest ? 1 : 0;
+    if (calls) billed = true;
+    return {
+      ...sample,
+      chapter,
+      promptTokens: Math.round(sample.promptTokens * share),
+      completionTokens: Math.round(sample.completionTokens * share),
+      calls
+    };
+  });
+};
+
+// Totals per group, in order of first appearance ('' for records without a chapter)
+export const summarizeUsage = (
+  records: UsageRecord[],
+  groupBy: (record: UsageRecord) => string,
+  prices: ModelPrice[]
+): Map<string, UsageTotals> => {
+  const groups = new Map<string, UsageTotals>();
+  records.forEach(record => {
+    const key = groupBy(record);
+    const totals = groups.get(key) || emptyTotals();
+    const cost = costOf(record.model, record.promptTokens, record.completionTokens, prices);
+    totals.promptTokens += record.promptTokens;
+    totals.completionTokens += record.completionTokens;
+    totals.calls += record.calls;
+    if (cost === null) totals.unpriced = true;
+    else totals.cost += cost;
+    groups.set(key, totals);
+  });
+  return groups;
+};
+
+export const totalUsage = (records: UsageRecord[], prices: ModelPrice[]): UsageTotals =>
+  summarizeUsage(records, () => '', prices).get('') || emptyTotals();
+
+// Rough usage of a job before it runs: the prompts as they would be sent plus the expected output
+export const estimateTranslationUsage = (prompts: string[], sourceTexts: string[]) => ({
+  promptTokens: prompts.reduce((sum, prompt) => sum + estimateTokens(prompt), 0),
+  completionTokens: Math.ceil(sourceTexts.reduce((sum, text) => sum + estimateTokens(text), 0) * TRANSLATION_OUTPUT_RATIO)
+});
+
+export const estimateNotesUsage = (prompts: string[], segmentCount: number) => ({
+  promptTokens: prompts.reduce((sum, prompt) => sum + estimateTokens(prompt), 0),
+  completionTokens: segmentCount * NOTES_OUTPUT_TOKENS_PER_SEGMENT
+});
+
+export const formatCost = (cost: number): string => `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+
+export const formatTokens = (tokens: number): string => tokens.toLocaleString('en-US');